@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useCallHistory } from '@/hooks/useCallHistory';
+import { CallType } from '@/hooks/useWebRTC';
+import { History } from 'lucide-react';
+import CallHistoryList from './CallHistoryList';
+
+interface CallHistoryDialogProps {
+  conversationId: string;
+  conversationName: string;
+  onCallBack: (conversationId: string, callType: CallType) => void;
+}
+
+export default function CallHistoryDialog({ conversationId, conversationName, onCallBack }: CallHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { calls, loading } = useCallHistory({ conversationId, enabled: open });
+
+  const handleCallBack = (callConversationId: string, callType: CallType) => {
+    setOpen(false);
+    onCallBack(callConversationId, callType);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Call history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Call history</DialogTitle>
+          <DialogDescription>Calls in {conversationName}</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-96 overflow-y-auto -mx-2">
+          <CallHistoryList calls={calls} loading={loading} onCallBack={handleCallBack} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { CallHistoryEntry } from '@/hooks/useCallHistory';
+import { CallType } from '@/hooks/useWebRTC';
+import { formatCallDuration, isCallFinished } from '@/lib/calls';
+import { cn } from '@/lib/utils';
+import { Phone, PhoneIncoming, PhoneMissed, PhoneOutgoing, Video } from 'lucide-react';
+
+interface CallHistoryListProps {
+  calls: CallHistoryEntry[];
+  loading: boolean;
+  onCallBack: (conversationId: string, callType: CallType) => void;
+  // Names the conversation of each call; used by the global list
+  getConversationName?: (conversationId: string) => string | undefined;
+}
+
+export default function CallHistoryList({ calls, loading, onCallBack, getConversationName }: CallHistoryListProps) {
+  const { user } = useAuth();
+
+  const formatCallTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  const describeCall = (call: CallHistoryEntry, isOutgoing: boolean) => {
+    switch (call.status) {
+      case 'missed':
+        return isOutgoing ? 'No answer' : 'Missed';
+      case 'declined':
+        return 'Declined';
+      case 'ended':
+        return formatCallDuration(call.duration_seconds);
+      default:
+        return 'Ongoing';
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground px-4 py-2">Loading calls...</p>;
+  }
+
+  if (calls.length === 0) {
+    return <p className="text-sm text-muted-foreground px-4 py-2">No calls yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {calls.map((call) => {
+        const isOutgoing = call.initiator_id === user?.id;
+        const isMissed = !isOutgoing && (call.status === 'missed' || call.status === 'declined');
+        const DirectionIcon = isMissed ? PhoneMissed : isOutgoing ? PhoneOutgoing : PhoneIncoming;
+
+        // The other people on the call; fall back to the caller if nobody else joined
+        const others = call.participants.filter(p => p.id !== user?.id);
+        const names = (others.length > 0 ? others : (isOutgoing ? [] : [call.initiator]))
+          .filter(Boolean)
+          .map(p => p?.display_name || p?.username);
+        const title = getConversationName?.(call.conversation_id) || names.join(', ') || 'Call';
+
+        return (
+          <div
+            key={call.id}
+            className="flex items-center space-x-3 p-3 mx-2 rounded-lg hover:bg-accent"
+          >
+            <DirectionIcon
+              className={cn("h-4 w-4 flex-shrink-0", isMissed ? "text-destructive" : "text-muted-foreground")}
+            />
+            <div className="flex-1 min-w-0">
+              <p className={cn("text-sm font-medium truncate", isMissed && "text-destructive")}>
+                {title}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {isOutgoing ? 'Outgoing' : 'Incoming'} {call.call_type} call · {describeCall(call, isOutgoing)}
+                {getConversationName && names.length > 0 && ` · ${names.join(', ')}`}
+              </p>
+            </div>
+            <span className="text-xs text-muted-foreground flex-shrink-0">
+              {formatCallTime(call.started_at)}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onCallBack(call.conversation_id, call.call_type)}
+              disabled={!isCallFinished(call.status)}
+              title="Call back"
+            >
+              {call.call_type === 'video' ? <Video className="h-4 w-4" /> : <Phone className="h-4 w-4" />}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
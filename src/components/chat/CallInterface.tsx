@@ -1,8 +1,19 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useWebRTC, CallType } from '@/hooks/useWebRTC';
+import { useActiveSpeaker } from '@/hooks/useActiveSpeaker';
+import { useCallStats } from '@/hooks/useCallStats';
+import { rateCallQuality } from '@/lib/callStats';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { 
   Phone, 
   PhoneOff, 
@@ -10,75 +21,245 @@ import {
   MicOff, 
   Video, 
   VideoOff,
+  MonitorUp,
+  MonitorOff,
   Settings,
+  Activity,
+  Disc,
+  Square,
   Users,
   Minimize2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { CallStatus, CALL_RING_TIMEOUT_MS, isCallFinished, isCallRinging } from '@/lib/calls';
+import {
+  CallDeviceSettings,
+  loadCallDeviceSettings,
+  saveCallDeviceSettings,
+  audioConstraints,
+  videoConstraints
+} from '@/lib/mediaDevices';
+import { CallRecording, RecordingSource, startCallRecording } from '@/lib/callRecorder';
+import CallParticipantTile from './CallParticipantTile';
+import CallSettingsDialog from './CallSettingsDialog';
+import CallStatsOverlay from './CallStatsOverlay';
 
 interface CallParticipant {
   id: string;
   user_id: string;
   is_muted: boolean;
   is_video_enabled: boolean;
+  is_screen_sharing: boolean;
+  is_recording: boolean;
   profiles?: {
     username: string;
     display_name?: string;
   };
 }
 
+const FINISHED_CALL_MESSAGES: Record<string, string> = {
+  declined: 'Call declined',
+  missed: 'No answer',
+  ended: 'Call ended'
+};
+
+function downloadRecording(blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `call-recording-${new Date().toISOString().replace(/[:.]/g, '-')}.webm`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 interface CallInterfaceProps {
   callId: string;
+  callType: CallType;
   conversationId: string;
   onEndCall: () => void;
 }
 
-export default function CallInterface({ callId, conversationId, onEndCall }: CallInterfaceProps) {
+export default function CallInterface({ callId, callType, conversationId, onEndCall }: CallInterfaceProps) {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [participants, setParticipants] = useState<CallParticipant[]>([]);
   const [isMuted, setIsMuted] = useState(false);
-  const [isVideoEnabled, setIsVideoEnabled] = useState(false);
+  const [isVideoEnabled, setIsVideoEnabled] = useState(callType === 'video');
   const [isMinimized, setIsMinimized] = useState(false);
-  const localVideoRef = useRef<HTMLVideoElement>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [callStatus, setCallStatus] = useState<CallStatus | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [deviceSettings, setDeviceSettings] = useState<CallDeviceSettings>(loadCallDeviceSettings);
+  const [microphoneTrack, setMicrophoneTrack] = useState<MediaStreamTrack | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const recordingRef = useRef<CallRecording | null>(null);
+  const { remoteStreams, connectionStates, replaceTrack, getPeerStats } = useWebRTC({
+    callId,
+    userId: user?.id,
+    localStream,
+    participantIds: participants.map(p => p.user_id)
+  });
+
+  const isConnected = Object.values(connectionStates).some(state => state === 'connected');
+
+  const audioTracks: Record<string, MediaStreamTrack | null> = {};
+  participants.forEach(participant => {
+    audioTracks[participant.user_id] = participant.user_id === user?.id
+      ? (isMuted ? null : microphoneTrack)
+      : remoteStreams[participant.user_id]?.getAudioTracks()[0] ?? null;
+  });
+  const { speakingIds, activeSpeakerId } = useActiveSpeaker(audioTracks);
+  const activeSpeaker = participants.find(p => p.user_id === activeSpeakerId);
+  const callStats = useCallStats(getPeerStats);
+  const isRinging = isCallRinging(callStatus);
+  const recordingNames = participants
+    .filter(p => (p.user_id === user?.id ? isRecording : p.is_recording))
+    .map(p => (p.user_id === user?.id ? 'You' : p.profiles?.display_name || p.profiles?.username || 'User'));
+
+  const recordingSources: RecordingSource[] = participants.map(participant => {
+    if (participant.user_id === user?.id) {
+      return {
+        audioTrack: microphoneTrack,
+        videoTrack: screenStream?.getVideoTracks()[0]
+          ?? (isVideoEnabled ? localStream?.getVideoTracks()[0] : null)
+      };
+    }
+
+    const stream = remoteStreams[participant.user_id];
+    return {
+      audioTrack: stream?.getAudioTracks()[0],
+      videoTrack: participant.is_video_enabled || participant.is_screen_sharing
+        ? stream?.getVideoTracks()[0]
+        : null
+    };
+  });
+
+  let statusLabel = isConnected
+    ? (callType === 'video' ? 'Video Connected' : 'Voice Connected')
+    : 'Connecting...';
+  if (callStatus === 'pending') statusLabel = 'Calling...';
+  if (callStatus === 'ringing') statusLabel = 'Ringing...';
 
   useEffect(() => {
     initializeCall();
+    fetchCallStatus();
     fetchParticipants();
     
-    // Listen for participant changes
+    // Listen for participant and call status changes
     const channel = supabase
       .channel(`call-${callId}`)
       .on('postgres_changes',
         { event: '*', schema: 'public', table: 'call_participants', filter: `call_id=eq.${callId}` },
         () => fetchParticipants()
       )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'calls', filter: `id=eq.${callId}` },
+        (payload) => handleCallStatus(payload.new.status)
+      )
       .subscribe();
 
     return () => {
-      if (localStream) {
-        localStream.getTracks().forEach(track => track.stop());
-      }
       supabase.removeChannel(channel);
     };
   }, [callId]);
 
+  // Nobody picked up in time; the server decides whether the call really expired
+  useEffect(() => {
+    if (!isRinging) return;
+
+    const timeout = setTimeout(async () => {
+      const { error } = await supabase.rpc('expire_unanswered_call', { call_id_param: callId });
+      if (error) console.error('Error expiring call:', error);
+    }, CALL_RING_TIMEOUT_MS + 1000);
+
+    return () => clearTimeout(timeout);
+  }, [callId, isRinging]);
+
+  // Release the microphone when the stream is replaced or the call closes
+  useEffect(() => {
+    return () => {
+      localStream?.getTracks().forEach(track => track.stop());
+    };
+  }, [localStream]);
+
+  useEffect(() => {
+    return () => {
+      screenStream?.getTracks().forEach(track => track.stop());
+    };
+  }, [screenStream]);
+
+  // Follow people joining, leaving and switching devices while recording
+  useEffect(() => {
+    recordingRef.current?.update(recordingSources);
+  });
+
+  // Closing the call without hanging up still saves what was recorded
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stop()
+        .then(downloadRecording)
+        .catch((error) => console.error('Error saving recording:', error));
+      recordingRef.current = null;
+    };
+  }, []);
+
   const initializeCall = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: isVideoEnabled
-      });
-      
-      setLocalStream(stream);
-      if (localVideoRef.current && isVideoEnabled) {
-        localVideoRef.current.srcObject = stream;
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: audioConstraints(deviceSettings),
+          video: callType === 'video' && videoConstraints(deviceSettings)
+        });
+      } catch (error) {
+        if (callType !== 'video') throw error;
+        // No usable camera; join with audio only
+        console.error('Error accessing camera:', error);
+        stream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(deviceSettings) });
       }
+
+      const hasVideo = stream.getVideoTracks().length > 0;
+      setLocalStream(stream);
+      setMicrophoneTrack(stream.getAudioTracks()[0] ?? null);
+      setIsVideoEnabled(hasVideo);
+
+      await supabase
+        .from('call_participants')
+        .update({ is_video_enabled: hasVideo })
+        .eq('call_id', callId)
+        .eq('user_id', user?.id);
     } catch (error) {
       console.error('Error accessing media devices:', error);
     }
   };
 
+  const handleCallStatus = (status: CallStatus) => {
+    setCallStatus(status);
+
+    if (isCallFinished(status)) {
+      stopRecording();
+      toast({ title: FINISHED_CALL_MESSAGES[status] });
+      onEndCall();
+    }
+  };
+
+  const fetchCallStatus = async () => {
+    const { data, error } = await supabase
+      .from('calls')
+      .select('status')
+      .eq('id', callId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching call:', error);
+      return;
+    }
+
+    handleCallStatus(data.status as CallStatus);
+  };
+
   const fetchParticipants = async () => {
     try {
       const { data: participantsData, error } = await supabase
@@ -129,47 +310,213 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
       const videoTrack = localStream.getVideoTracks()[0];
       if (videoTrack) {
         videoTrack.enabled = !isVideoEnabled;
-        setIsVideoEnabled(!isVideoEnabled);
-        
-        // Update in database
-        await supabase
-          .from('call_participants')
-          .update({ is_video_enabled: !isVideoEnabled })
-          .eq('call_id', callId)
-          .eq('user_id', user?.id);
+      } else {
+        // The call started audio-only, so the camera has to be opened first
+        try {
+          const cameraStream = await navigator.mediaDevices.getUserMedia({
+            video: videoConstraints(deviceSettings)
+          });
+          const cameraTrack = cameraStream.getVideoTracks()[0];
+          localStream.addTrack(cameraTrack);
+          // A shared screen keeps the video slot until sharing stops
+          if (!screenStream) {
+            await replaceTrack('video', cameraTrack);
+          }
+        } catch (error) {
+          console.error('Error accessing camera:', error);
+          toast({
+            title: "Error",
+            description: "Could not access your camera",
+            variant: "destructive"
+          });
+          return;
+        }
       }
+
+      setIsVideoEnabled(!isVideoEnabled);
+
+      // Update in database
+      await supabase
+        .from('call_participants')
+        .update({ is_video_enabled: !isVideoEnabled })
+        .eq('call_id', callId)
+        .eq('user_id', user?.id);
     }
   };
 
-  const endCall = async () => {
+  const switchMicrophone = async (settings: CallDeviceSettings) => {
+    if (!localStream) return;
+
+    const micStream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings) });
+    const newTrack = micStream.getAudioTracks()[0];
+    newTrack.enabled = !isMuted;
+
+    localStream.getAudioTracks().forEach(track => {
+      localStream.removeTrack(track);
+      track.stop();
+    });
+    localStream.addTrack(newTrack);
+    setMicrophoneTrack(newTrack);
+
+    await replaceTrack('audio', newTrack);
+  };
+
+  const switchCamera = async (settings: CallDeviceSettings) => {
+    // Without a camera track the new choice is used the next time video is turned on
+    const oldTrack = localStream?.getVideoTracks()[0];
+    if (!localStream || !oldTrack) return;
+
+    const cameraStream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings) });
+    const newTrack = cameraStream.getVideoTracks()[0];
+    newTrack.enabled = isVideoEnabled;
+
+    localStream.removeTrack(oldTrack);
+    oldTrack.stop();
+    localStream.addTrack(newTrack);
+
+    if (!screenStream) {
+      await replaceTrack('video', newTrack);
+    }
+  };
+
+  const updateDeviceSettings = async (settings: CallDeviceSettings) => {
+    const previous = deviceSettings;
+    setDeviceSettings(settings);
+    saveCallDeviceSettings(settings);
+
+    try {
+      if (
+        settings.audioInputId !== previous.audioInputId ||
+        settings.echoCancellation !== previous.echoCancellation ||
+        settings.noiseSuppression !== previous.noiseSuppression
+      ) {
+        await switchMicrophone(settings);
+      }
+      if (settings.videoInputId !== previous.videoInputId) {
+        await switchCamera(settings);
+      }
+    } catch (error) {
+      console.error('Error switching devices:', error);
+      toast({
+        title: "Error",
+        description: "Could not switch to the selected device",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const stopScreenShare = async (stream: MediaStream) => {
+    stream.getTracks().forEach(track => track.stop());
+    setScreenStream(current => (current === stream ? null : current));
+
+    // Go back to the camera, which keeps its own on/off state
+    await replaceTrack('video', localStream?.getVideoTracks()[0] ?? null);
+
+    await supabase
+      .from('call_participants')
+      .update({ is_screen_sharing: false })
+      .eq('call_id', callId)
+      .eq('user_id', user?.id);
+  };
+
+  const startScreenShare = async () => {
     try {
-      // Mark participant as left
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      const [screenTrack] = stream.getVideoTracks();
+
+      // Fired when sharing is stopped from the browser's own controls
+      screenTrack.onended = () => {
+        stopScreenShare(stream).catch((error) => console.error('Error stopping screen share:', error));
+      };
+
+      await replaceTrack('video', screenTrack);
+      setScreenStream(stream);
+
       await supabase
         .from('call_participants')
-        .update({ left_at: new Date().toISOString() })
+        .update({ is_screen_sharing: true })
         .eq('call_id', callId)
         .eq('user_id', user?.id);
+    } catch (error) {
+      // Dismissing the browser's picker rejects with NotAllowedError
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
 
-      // Update call status if last participant
-      const activeParticipants = participants.filter(p => p.user_id !== user?.id);
-      if (activeParticipants.length === 0) {
-        await supabase
-          .from('calls')
-          .update({ 
-            status: 'ended',
-            ended_at: new Date().toISOString()
-          })
-          .eq('id', callId);
-      }
+      console.error('Error sharing screen:', error);
+      toast({
+        title: "Error",
+        description: "Could not share your screen",
+        variant: "destructive"
+      });
+    }
+  };
 
-      if (localStream) {
-        localStream.getTracks().forEach(track => track.stop());
-      }
+  const toggleScreenShare = () => {
+    if (screenStream) {
+      stopScreenShare(screenStream).catch((error) => console.error('Error stopping screen share:', error));
+    } else {
+      startScreenShare();
+    }
+  };
 
-      onEndCall();
+  const setRecordingFlag = async (recording: boolean) => {
+    const { error } = await supabase
+      .from('call_participants')
+      .update({ is_recording: recording })
+      .eq('call_id', callId)
+      .eq('user_id', user?.id);
+
+    if (error) console.error('Error updating recording state:', error);
+  };
+
+  const startRecording = async (includeVideo: boolean) => {
+    if (recordingRef.current) return;
+
+    try {
+      recordingRef.current = startCallRecording(recordingSources, { includeVideo });
+      setIsRecording(true);
+      await setRecordingFlag(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast({
+        title: "Error",
+        description: "Could not start recording",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    try {
+      downloadRecording(await recording.stop());
+    } catch (error) {
+      console.error('Error saving recording:', error);
+    }
+
+    await setRecordingFlag(false);
+  };
+
+  const endCall = async () => {
+    await stopRecording();
+
+    try {
+      // The server ends the call once we were the last one in it
+      const { error } = await supabase.rpc('leave_call', { call_id_param: callId });
+      if (error) throw error;
     } catch (error) {
       console.error('Error ending call:', error);
     }
+
+    if (localStream) {
+      localStream.getTracks().forEach(track => track.stop());
+    }
+
+    onEndCall();
   };
 
   if (isMinimized) {
@@ -178,8 +525,11 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
         <div className="bg-background border border-border rounded-lg p-4 shadow-lg min-w-[300px]">
           <div className="flex items-center justify-between mb-3">
             <div className="flex items-center space-x-2">
-              <Phone className="h-4 w-4 text-green-500" />
-              <span className="text-sm font-medium">Call in progress</span>
+              <Phone className={cn("h-4 w-4", isConnected ? "text-green-500" : "text-yellow-500")} />
+              <span className="text-sm font-medium">{isConnected ? 'Call in progress' : statusLabel}</span>
+              {recordingNames.length > 0 && (
+                <span className="text-xs font-medium text-red-500">REC</span>
+              )}
             </div>
             <Button
               variant="ghost"
@@ -193,6 +543,13 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
           <div className="flex items-center justify-between">
             <div className="text-xs text-muted-foreground">
               {participants.length} participant{participants.length !== 1 ? 's' : ''}
+              {activeSpeaker && (
+                <span className="text-green-500">
+                  {' · '}{activeSpeaker.user_id === user?.id
+                    ? 'You'
+                    : activeSpeaker.profiles?.display_name || activeSpeaker.profiles?.username || 'User'} speaking
+                </span>
+              )}
             </div>
             <div className="flex space-x-2">
               <Button
@@ -217,16 +574,30 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
   }
 
   return (
-    <Dialog open={true} onOpenChange={onEndCall}>
+    <Dialog open={true} onOpenChange={endCall}>
       <DialogContent className="max-w-4xl h-[600px] p-0 bg-gray-900 text-white border-gray-700">
         <div className="flex flex-col h-full">
           {/* Header */}
           <div className="flex items-center justify-between p-4 border-b border-gray-700">
             <div className="flex items-center space-x-3">
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-              <span className="text-sm">Voice Connected</span>
+              <div className={cn("w-2 h-2 rounded-full animate-pulse", isConnected ? "bg-green-500" : "bg-yellow-500")}></div>
+              <span className="text-sm">{statusLabel}</span>
+              {recordingNames.length > 0 && (
+                <span className="flex items-center space-x-1 rounded bg-red-600 px-2 py-0.5 text-xs font-medium">
+                  <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+                  <span>Recording · {recordingNames.join(', ')}</span>
+                </span>
+              )}
             </div>
             <div className="flex items-center space-x-2">
+              <Button
+                variant={showStats ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setShowStats(!showStats)}
+                title="Connection stats"
+              >
+                <Activity className="h-4 w-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -241,29 +612,23 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
           <div className="flex-1 p-6">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 h-full">
               {participants.map((participant) => (
-                <div
+                <CallParticipantTile
                   key={participant.id}
-                  className="relative bg-gray-800 rounded-lg p-4 flex flex-col items-center justify-center"
-                >
-                  <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center mb-3">
-                    <span className="text-lg font-bold text-white">
-                      {(participant.profiles?.display_name || participant.profiles?.username || 'U').charAt(0).toUpperCase()}
-                    </span>
-                  </div>
-                  <div className="text-center">
-                    <p className="text-sm font-medium">
-                      {participant.profiles?.display_name || participant.profiles?.username || 'User'}
-                    </p>
-                    <div className="flex items-center justify-center space-x-1 mt-1">
-                      {participant.is_muted && (
-                        <MicOff className="h-3 w-3 text-red-500" />
-                      )}
-                      {!participant.is_video_enabled && (
-                        <VideoOff className="h-3 w-3 text-gray-400" />
-                      )}
-                    </div>
-                  </div>
-                </div>
+                  name={participant.profiles?.display_name || participant.profiles?.username || 'User'}
+                  isMuted={participant.is_muted}
+                  isVideoEnabled={participant.user_id === user?.id ? isVideoEnabled : participant.is_video_enabled}
+                  isScreenSharing={participant.user_id === user?.id ? !!screenStream : participant.is_screen_sharing}
+                  isLocal={participant.user_id === user?.id}
+                  stream={participant.user_id === user?.id
+                    ? (screenStream ?? localStream ?? undefined)
+                    : remoteStreams[participant.user_id]}
+                  connectionState={connectionStates[participant.user_id]}
+                  audioOutputId={deviceSettings.audioOutputId}
+                  isSpeaking={speakingIds.includes(participant.user_id)}
+                  isActiveSpeaker={participant.user_id === activeSpeakerId}
+                  quality={participant.user_id === user?.id ? undefined : rateCallQuality(callStats[participant.user_id])}
+                  isRecording={participant.user_id === user?.id ? isRecording : participant.is_recording}
+                />
               ))}
             </div>
           </div>
@@ -288,9 +653,53 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
               {isVideoEnabled ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
             </Button>
 
+            <Button
+              variant={screenStream ? "secondary" : "outline"}
+              size="lg"
+              onClick={toggleScreenShare}
+              className="w-12 h-12 rounded-full"
+              title={screenStream ? 'Stop sharing' : 'Share screen'}
+            >
+              {screenStream ? <MonitorOff className="h-5 w-5" /> : <MonitorUp className="h-5 w-5" />}
+            </Button>
+
+            {isRecording ? (
+              <Button
+                variant="destructive"
+                size="lg"
+                onClick={stopRecording}
+                className="w-12 h-12 rounded-full"
+                title="Stop recording"
+              >
+                <Square className="h-5 w-5" />
+              </Button>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    className="w-12 h-12 rounded-full"
+                    title="Record call"
+                  >
+                    <Disc className="h-5 w-5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent side="top">
+                  <DropdownMenuItem onClick={() => startRecording(false)}>
+                    Record audio
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => startRecording(true)}>
+                    Record audio and video
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
             <Button
               variant="secondary"
               size="lg"
+              onClick={() => setSettingsOpen(true)}
               className="w-12 h-12 rounded-full"
             >
               <Settings className="h-5 w-5" />
@@ -307,12 +716,24 @@ export default function CallInterface({ callId, conversationId, onEndCall }: Cal
           </div>
         </div>
 
-        {/* Hidden video element for local stream */}
-        <video
-          ref={localVideoRef}
-          autoPlay
-          muted
-          className="hidden"
+        {showStats && (
+          <CallStatsOverlay
+            peers={participants
+              .filter(p => p.user_id !== user?.id)
+              .map(p => ({
+                userId: p.user_id,
+                name: p.profiles?.display_name || p.profiles?.username || 'User'
+              }))}
+            stats={callStats}
+          />
+        )}
+
+        <CallSettingsDialog
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+          settings={deviceSettings}
+          onSettingsChange={updateDeviceSettings}
+          microphoneTrack={microphoneTrack}
         />
       </DialogContent>
     </Dialog>
@@ -0,0 +1,143 @@
+import { useEffect, useRef } from 'react';
+import { MicOff, VideoOff, MonitorUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CallQuality } from '@/lib/callStats';
+
+const QUALITY_STYLES: Record<CallQuality, string> = {
+  good: 'bg-green-500',
+  fair: 'bg-yellow-500',
+  poor: 'bg-red-500',
+  unknown: 'bg-gray-500'
+};
+
+interface CallParticipantTileProps {
+  name: string;
+  isMuted: boolean;
+  isVideoEnabled: boolean;
+  isScreenSharing: boolean;
+  isLocal: boolean;
+  stream?: MediaStream;
+  connectionState?: RTCPeerConnectionState;
+  // Speaker to play remote audio on; the system default when unset
+  audioOutputId?: string;
+  isSpeaking?: boolean;
+  isActiveSpeaker?: boolean;
+  // Connection quality to this participant; not shown for ourselves
+  quality?: CallQuality;
+  isRecording?: boolean;
+}
+
+export default function CallParticipantTile({
+  name,
+  isMuted,
+  isVideoEnabled,
+  isScreenSharing,
+  isLocal,
+  stream,
+  connectionState,
+  audioOutputId,
+  isSpeaking = false,
+  isActiveSpeaker = false,
+  quality,
+  isRecording = false
+}: CallParticipantTileProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const showVideo = (isVideoEnabled || isScreenSharing) && !!stream;
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = stream ?? null;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !audioOutputId || typeof audio.setSinkId !== 'function') return;
+
+    audio.setSinkId(audioOutputId).catch((error) => {
+      console.error('Error switching audio output:', error);
+    });
+  }, [audioOutputId]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = showVideo ? stream : null;
+    }
+  }, [stream, showVideo]);
+
+  const isConnecting = !isLocal && connectionState !== 'connected';
+
+  return (
+    <div
+      className={cn(
+        "relative bg-gray-800 rounded-lg p-4 flex flex-col items-center justify-center overflow-hidden transition-shadow",
+        isSpeaking && "ring-2 ring-green-500/60",
+        isActiveSpeaker && "ring-4 ring-green-500"
+      )}
+    >
+      {showVideo ? (
+        // Sound always comes from the audio element, so the video stays muted
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={cn(
+            "absolute inset-0 w-full h-full",
+            isScreenSharing ? "object-contain bg-black" : "object-cover",
+            isLocal && !isScreenSharing && "-scale-x-100"
+          )}
+        />
+      ) : (
+        <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center mb-3">
+          <span className="text-lg font-bold text-white">
+            {name.charAt(0).toUpperCase()}
+          </span>
+        </div>
+      )}
+      <div className={cn("text-center", showVideo && "absolute bottom-2 left-2 bg-black/50 rounded px-2 py-1")}>
+        <p className="text-sm font-medium">
+          {name}{isLocal && ' (You)'}
+        </p>
+        {isScreenSharing && (
+          <p className="text-xs text-green-400">Presenting</p>
+        )}
+        <div className="flex items-center justify-center space-x-1 mt-1">
+          {isScreenSharing && (
+            <MonitorUp className="h-3 w-3 text-green-500" />
+          )}
+          {isMuted && (
+            <MicOff className="h-3 w-3 text-red-500" />
+          )}
+          {!isVideoEnabled && (
+            <VideoOff className="h-3 w-3 text-gray-400" />
+          )}
+        </div>
+        {isConnecting && (
+          <p className="text-xs text-gray-400 mt-1">
+            {connectionState === 'failed' ? 'Connection failed' : 'Connecting...'}
+          </p>
+        )}
+      </div>
+
+      {isRecording && (
+        <div className="absolute top-2 left-2 flex items-center space-x-1 rounded bg-red-600/90 px-2 py-0.5 text-xs font-medium">
+          <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+          <span>REC</span>
+        </div>
+      )}
+
+      {quality && quality !== 'unknown' && (
+        <div className="absolute top-2 right-2 flex items-center space-x-1 rounded bg-black/50 px-2 py-0.5 text-xs">
+          <span className={cn("w-2 h-2 rounded-full", QUALITY_STYLES[quality])} />
+          <span className="capitalize">{quality}</span>
+        </div>
+      )}
+
+      {/* Remote audio; our own stream is never played back */}
+      {!isLocal && <audio ref={audioRef} autoPlay />}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { createAudioLevelMonitor } from '@/lib/audioLevel';
+import { CallDeviceSettings } from '@/lib/mediaDevices';
+
+interface CallSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CallDeviceSettings;
+  onSettingsChange: (settings: CallDeviceSettings) => void;
+  microphoneTrack: MediaStreamTrack | null;
+}
+
+function MicLevelMeter({ track }: { track: MediaStreamTrack | null }) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!track) return;
+
+    const monitor = createAudioLevelMonitor(track);
+    let frame = requestAnimationFrame(function update() {
+      setLevel(monitor.getLevel());
+      frame = requestAnimationFrame(update);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      monitor.stop();
+      setLevel(0);
+    };
+  }, [track]);
+
+  return <Progress value={level * 100} className="h-2" />;
+}
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string) => void;
+}
+
+function DeviceSelect({ id, label, devices, value, onChange }: DeviceSelectProps) {
+  // Without media permission the browser hides device ids, so there is nothing to choose from
+  const selectable = devices.filter(device => device.deviceId);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={value && selectable.some(device => device.deviceId === value) ? value : undefined}
+        onValueChange={onChange}
+        disabled={selectable.length === 0}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder={selectable.length === 0 ? 'No devices found' : 'System default'} />
+        </SelectTrigger>
+        <SelectContent>
+          {selectable.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function CallSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  onSettingsChange,
+  microphoneTrack
+}: CallSettingsDialogProps) {
+  const { audioInputs, videoInputs, audioOutputs } = useMediaDevices();
+
+  // Choosing the speaker is only supported by some browsers
+  const canSelectOutput = audioOutputs.length > 0 && 'setSinkId' in HTMLMediaElement.prototype;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Call settings</DialogTitle>
+          <DialogDescription>
+            Changes apply immediately and are remembered for your next calls.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <DeviceSelect
+            id="call-microphone"
+            label="Microphone"
+            devices={audioInputs}
+            value={settings.audioInputId}
+            onChange={(audioInputId) => onSettingsChange({ ...settings, audioInputId })}
+          />
+
+          <div className="space-y-2">
+            <Label>Input level</Label>
+            {open && <MicLevelMeter track={microphoneTrack} />}
+          </div>
+
+          {canSelectOutput && (
+            <DeviceSelect
+              id="call-speaker"
+              label="Speaker"
+              devices={audioOutputs}
+              value={settings.audioOutputId}
+              onChange={(audioOutputId) => onSettingsChange({ ...settings, audioOutputId })}
+            />
+          )}
+
+          <DeviceSelect
+            id="call-camera"
+            label="Camera"
+            devices={videoInputs}
+            value={settings.videoInputId}
+            onChange={(videoInputId) => onSettingsChange({ ...settings, videoInputId })}
+          />
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="call-echo-cancellation">Echo cancellation</Label>
+            <Switch
+              id="call-echo-cancellation"
+              checked={settings.echoCancellation}
+              onCheckedChange={(echoCancellation) => onSettingsChange({ ...settings, echoCancellation })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="call-noise-suppression">Noise suppression</Label>
+            <Switch
+              id="call-noise-suppression"
+              checked={settings.noiseSuppression}
+              onCheckedChange={(noiseSuppression) => onSettingsChange({ ...settings, noiseSuppression })}
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { CallStatsSample, rateCallQuality } from '@/lib/callStats';
+
+interface CallStatsOverlayProps {
+  peers: Array<{ userId: string; name: string }>;
+  stats: Record<string, CallStatsSample>;
+}
+
+const formatNumber = (value: number | undefined, unit: string, digits = 0) =>
+  value === undefined ? '–' : `${value.toFixed(digits)} ${unit}`;
+
+export default function CallStatsOverlay({ peers, stats }: CallStatsOverlayProps) {
+  return (
+    <div className="absolute top-16 right-4 z-10 w-80 max-h-[70%] overflow-y-auto rounded-lg bg-black/80 p-3 text-xs font-mono space-y-3">
+      {peers.length === 0 && (
+        <p className="text-gray-400">No connections yet</p>
+      )}
+      {peers.map(({ userId, name }) => {
+        const sample = stats[userId];
+        return (
+          <div key={userId} className="space-y-1">
+            <div className="flex items-center justify-between font-sans text-sm">
+              <span className="font-medium truncate">{name}</span>
+              <span className="text-gray-400">{rateCallQuality(sample)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-x-3 text-gray-300">
+              <span>RTT</span>
+              <span>{formatNumber(sample?.rttMs, 'ms')}</span>
+              <span>Jitter</span>
+              <span>{formatNumber(sample?.jitterMs, 'ms', 1)}</span>
+              <span>Packet loss</span>
+              <span>{formatNumber(sample?.packetLossPercent, '%', 1)}</span>
+              <span>Bitrate in</span>
+              <span>{formatNumber(sample?.inboundKbps, 'kbps')}</span>
+              <span>Bitrate out</span>
+              <span>{formatNumber(sample?.outboundKbps, 'kbps')}</span>
+              <span>Codecs</span>
+              <span>{[sample?.audioCodec, sample?.videoCodec].filter(Boolean).join(', ') || '–'}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
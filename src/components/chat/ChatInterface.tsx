@@ -1,14 +1,33 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Badge } from '@/components/ui/badge';
-import { MessageCircle, Send, Phone, Video, Settings, Moon, Sun, Crown } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MessageCircle, Send, Phone, Video, Settings, Moon, Sun, Lock, Unlock, ShieldAlert, Paperclip, FileText, ImageIcon, X, Loader2, Upload, Mic } from 'lucide-react';
 import { useTheme } from '@/components/ThemeProvider';
 import { useToast } from '@/hooks/use-toast';
+import { useEncryptionStatus } from '@/hooks/useEncryption';
+import { MAX_MESH_PARTICIPANTS, CallType } from '@/hooks/useWebRTC';
+import { isCallFinished, isCallFullError } from '@/lib/calls';
+import { useKeyVerification } from '@/hooks/useKeyVerification';
+import { useCallHistory } from '@/hooks/useCallHistory';
+import { useVoiceRecorder, VoiceRecording } from '@/hooks/useVoiceRecorder';
+import { ChatMessage, useConversationMessages } from '@/hooks/useConversationMessages';
+import { hideMessage, loadHiddenMessageIds } from '@/lib/hiddenMessages';
+import { MESSAGE_COLUMNS } from '@/lib/messagePagination';
+import { encryption } from '@/lib/encryption';
+import {
+  Attachment,
+  AttachmentMessageType,
+  MAX_ATTACHMENT_SIZE,
+  attachmentMessageType,
+  formatFileSize,
+  serializeAttachment,
+  uploadAttachment
+} from '@/lib/attachments';
 import AddFriend from './AddFriend';
 import PendingRequests from './PendingRequests';
 import FriendsList from './FriendsList';
@@ -20,6 +39,11 @@ import CallInterface from './CallInterface';
 import GroupManagement from './GroupManagement';
 import IncomingCallModal from './IncomingCallModal';
 import UserProfileModal from './UserProfileModal';
+import KeyUnlockDialog from './KeyUnlockDialog';
+import CallHistoryList from './CallHistoryList';
+import CallHistoryDialog from './CallHistoryDialog';
+import ConversationListItem, { ConversationLastMessage } from './ConversationListItem';
+import ReplyPreview from './ReplyPreview';
 
 interface Profile {
   id: string;
@@ -28,24 +52,21 @@ interface Profile {
   avatar_url?: string;
 }
 
-interface Message {
-  id: string;
-  content: string;
-  sender_id: string;
-  created_at: string;
-  reply_to?: string;
-  profiles: Profile;
-}
-
 interface Conversation {
   id: string;
   name?: string;
   type: string;
   created_by?: string;
+  delete_window_minutes?: number | null;
   participants: Profile[];
-  messages: Message[];
+  lastMessage: ConversationLastMessage | null;
+  lastActivityAt: string;
+  unreadCount: number;
 }
 
+const byLastActivity = (a: Conversation, b: Conversation) =>
+  b.lastActivityAt.localeCompare(a.lastActivityAt);
+
 export default function ChatInterface() {
   const { user, signOut } = useAuth();
   const { theme, setTheme } = useTheme();
@@ -57,7 +78,7 @@ export default function ChatInterface() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [activeCall, setActiveCall] = useState<string | null>(null);
+  const [activeCall, setActiveCall] = useState<{ id: string; type: CallType } | null>(null);
   const [characterCount, setCharacterCount] = useState(0);
   const MAX_MESSAGE_LENGTH = 2000;
   const [incomingCall, setIncomingCall] = useState<any>(null);
@@ -68,13 +89,46 @@ export default function ChatInterface() {
     timestamp: string;
   }>>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll position from before older messages were prepended, so the view doesn't jump
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const conversationMessages = useConversationMessages(selectedConversation);
+  const encryptionStatus = useEncryptionStatus();
+  const [sidebarTab, setSidebarTab] = useState<'chats' | 'calls'>('chats');
+  const callHistory = useCallHistory({ enabled: sidebarTab === 'calls' });
+  const [keyDialogOpen, setKeyDialogOpen] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const voiceRecorder = useVoiceRecorder();
+  const [hiddenMessageIds, setHiddenMessageIds] = useState<Set<string>>(new Set());
+  // Read by the realtime handlers, which are only set up once per user
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  const selectedConversationRef = useRef(selectedConversation);
+  selectedConversationRef.current = selectedConversation;
+
+  // Warn when the other side of a direct chat has a different key than the one we verified
+  const activeConversation = conversations.find(c => c.id === selectedConversation);
+  const directContact = activeConversation?.type === 'direct'
+    ? activeConversation.participants.find(p => p.id !== user?.id)
+    : undefined;
+  const contactVerification = useKeyVerification(directContact?.id);
+  const newestMessageId = conversationMessages.messages[conversationMessages.messages.length - 1]?.id;
 
   useEffect(() => {
     if (user) {
       fetchProfile();
       fetchConversations();
+
+      // Find this device's sealed keys; they stay locked until the passphrase is entered
+      encryption.initialize(user.id).catch((error) => {
+        console.error('Error initializing encryption:', error);
+      });
       
-      // Set up real-time subscription for new messages
+      // Message bodies are subscribed to per conversation by useConversationMessages;
+      // these only keep the sidebar's previews and unread counts current
       const channel = supabase
         .channel('schema-db-changes')
         .on(
@@ -84,9 +138,41 @@ export default function ChatInterface() {
             schema: 'public',
             table: 'messages'
           },
-          () => {
-            // Refresh conversations when new message is inserted
-            fetchConversations();
+          (payload) => {
+            const message = payload.new as ConversationLastMessage & { conversation_id: string };
+
+            // A conversation someone else just started with us
+            if (!conversationsRef.current.some(c => c.id === message.conversation_id)) {
+              fetchConversations();
+              return;
+            }
+
+            const isOpen = message.conversation_id === selectedConversationRef.current;
+            if (isOpen && message.sender_id !== user.id) markConversationRead(message.conversation_id);
+
+            setConversations(prev => prev.map(c => c.id !== message.conversation_id ? c : {
+              ...c,
+              lastMessage: message,
+              lastActivityAt: message.created_at,
+              unreadCount: isOpen || message.sender_id === user.id ? c.unreadCount : c.unreadCount + 1
+            }).sort(byLastActivity));
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'messages'
+          },
+          (payload) => {
+            // Edits and deletions of the message being previewed
+            const message = payload.new as ConversationLastMessage & { conversation_id: string };
+            setConversations(prev => prev.map(c =>
+              c.id === message.conversation_id && c.lastMessage?.id === message.id
+                ? { ...c, lastMessage: message }
+                : c
+            ));
           }
         )
         .on(
@@ -97,7 +183,11 @@ export default function ChatInterface() {
             table: 'calls'
           },
           async (payload) => {
-            if (payload.new.status === 'active' && payload.new.initiator_id !== user.id) {
+            if (payload.new.status === 'pending' && payload.new.initiator_id !== user.id) {
+              // Let the caller know the call reached us
+              const { error } = await supabase.rpc('mark_call_ringing', { call_id_param: payload.new.id });
+              if (error) console.error('Error marking call as ringing:', error);
+
               // Get the initiator's profile for incoming call
               const { data: initiatorProfile } = await supabase
                 .from('profiles')
@@ -114,6 +204,21 @@ export default function ChatInterface() {
             }
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'calls'
+          },
+          (payload) => {
+            // Stop ringing once the call is over, or a 1:1 call was answered on another device
+            const { id, status, is_group_call } = payload.new;
+            if (isCallFinished(status) || (status === 'active' && !is_group_call)) {
+              setIncomingCall(current => (current?.id === id ? null : current));
+            }
+          }
+        )
         .subscribe();
 
       return () => {
@@ -122,9 +227,38 @@ export default function ChatInterface() {
     }
   }, [user]);
 
+  useEffect(() => {
+    setHiddenMessageIds(user ? loadHiddenMessageIds(user.id) : new Set());
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedConversation) markConversationRead(selectedConversation);
+  }, [selectedConversation]);
+
+  useEffect(() => {
+    if (encryptionStatus === 'needs-setup' || encryptionStatus === 'locked') {
+      setKeyDialogOpen(true);
+    }
+  }, [encryptionStatus]);
+
+  // Follow new messages, but not older ones being loaded above
   useEffect(() => {
     scrollToBottom();
-  }, [selectedConversation, conversations]);
+  }, [selectedConversation, newestMessageId]);
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const container = messagesContainerRef.current;
+    if (!anchor || !container) return;
+
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    scrollAnchorRef.current = null;
+  }, [conversationMessages.messages]);
+
+  // Files picked for one conversation shouldn't be sent to another
+  useEffect(() => {
+    setPendingAttachments([]);
+  }, [selectedConversation]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -149,97 +283,270 @@ export default function ChatInterface() {
   const fetchConversations = async () => {
     if (!user) return;
 
-    const { data: participantData, error: participantError } = await supabase
-      .from('conversation_participants')
-      .select(`
-        conversation_id,
-        conversations!inner(
-          id,
-          name,
-          group_name,
-          type,
-          created_by,
-          created_at
-        )
-      `)
-      .eq('user_id', user.id);
+    // Participants, last message and unread count for every conversation in one call
+    const { data, error } = await supabase.rpc('get_conversation_list');
 
-    if (participantError) {
-      console.error('Error fetching conversations:', participantError);
+    if (error) {
+      console.error('Error fetching conversations:', error);
       return;
     }
 
-    // For each conversation, get all participants and recent messages
-    const conversationsWithDetails = await Promise.all(
-      participantData.map(async (item) => {
-        const conversationId = item.conversation_id;
-        
-        // Get all participants
-        const { data: participants } = await supabase
-          .from('conversation_participants')
-          .select(`
-            profiles!inner(
-              id,
-              username,
-              status,
-              avatar_url
-            )
-          `)
-          .eq('conversation_id', conversationId);
-
-        // Get recent messages with reply info
-        const { data: messages } = await supabase
-          .from('messages')
-          .select(`
-            id,
-            content,
-            sender_id,
-            created_at,
-            reply_to,
-            profiles!inner(
-              id,
-              username,
-              status,
-              avatar_url,
-              display_name
-            )
-          `)
-          .eq('conversation_id', conversationId)
-          .order('created_at', { ascending: true })
-          .limit(50);
-
-        return {
-          id: conversationId,
-          name: item.conversations.name || item.conversations.group_name,
-          type: item.conversations.type,
-          created_by: item.conversations.created_by,
-          participants: participants?.map(p => p.profiles) || [],
-          messages: messages || []
-        };
-      })
+    setConversations(data.map(item => ({
+      id: item.id,
+      name: item.name,
+      type: item.type,
+      created_by: item.created_by,
+      delete_window_minutes: item.delete_window_minutes,
+      participants: item.participants as unknown as Profile[],
+      lastMessage: item.last_message as unknown as ConversationLastMessage | null,
+      lastActivityAt: item.last_activity_at,
+      unreadCount: item.unread_count
+    })));
+  };
+
+  const markConversationRead = async (conversationId: string) => {
+    setConversations(prev => prev.map(c => c.id === conversationId && c.unreadCount > 0 ? { ...c, unreadCount: 0 } : c));
+
+    const { error } = await supabase.rpc('mark_conversation_read', { conversation_id_param: conversationId });
+    if (error) console.error('Error marking conversation as read:', error);
+  };
+
+  const loadOlderMessages = async () => {
+    try {
+      await conversationMessages.loadOlder(() => {
+        const container = messagesContainerRef.current;
+        if (container) {
+          scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+        }
+      });
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load earlier messages",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const addAttachments = (files: File[]) => {
+    if (!selectedConversation || files.length === 0) return;
+
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map(file => file.name).join(', ')} is over ${formatFileSize(MAX_ATTACHMENT_SIZE)}`,
+        variant: "destructive"
+      });
+    }
+
+    const accepted = files.filter(file => file.size <= MAX_ATTACHMENT_SIZE);
+    setPendingAttachments(prev => [...prev, ...accepted]);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!selectedConversation || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between child elements fires dragleave too
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    // Keep the file's name out of the text box
+    e.preventDefault();
+    addAttachments(files);
+  };
+
+  const insertAttachmentMessage = async (
+    conversationId: string,
+    attachment: Attachment,
+    messageType: AttachmentMessageType,
+    replyTo?: string
+  ) => {
+    if (!user) return;
+
+    const { encryptedContent, encryptionKeyId, keyVersion } = await encryption.encryptMessage(
+      serializeAttachment(attachment),
+      conversationId
     );
 
-    setConversations(conversationsWithDetails);
+    const { data, error } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: user.id,
+        client_id: crypto.randomUUID(),
+        content: '',
+        encrypted_content: encryptedContent,
+        encryption_key_id: encryptionKeyId,
+        key_version: keyVersion,
+        message_type: messageType,
+        reply_to: replyTo
+      })
+      .select(MESSAGE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    // Shown right away rather than waiting for the realtime echo
+    if (conversationId === selectedConversation) {
+      conversationMessages.applyMessage(data);
+    }
+  };
+
+  // Uploads each file and sends it as its own message; returns the files that failed
+  const sendAttachments = async (conversationId: string, files: File[], replyTo?: string) => {
+    if (!user) return files;
+
+    const failed: File[] = [];
+    for (const [index, file] of files.entries()) {
+      try {
+        const attachment = await uploadAttachment(conversationId, user.id, file);
+        await insertAttachmentMessage(
+          conversationId,
+          attachment,
+          attachmentMessageType(attachment.mimeType),
+          index === 0 ? replyTo : undefined
+        );
+      } catch (error) {
+        console.error('Error sending attachment:', error);
+        failed.push(file);
+      }
+    }
+
+    return failed;
+  };
+
+  const sendVoiceMessage = async (conversationId: string, recording: VoiceRecording) => {
+    if (!user) return;
+
+    setIsUploading(true);
+    try {
+      const extension = recording.blob.type.includes('mp4') ? 'm4a' : 'webm';
+      const file = new File([recording.blob], `voice-message.${extension}`, { type: recording.blob.type });
+      const attachment = await uploadAttachment(conversationId, user.id, file);
+
+      await insertAttachmentMessage(
+        conversationId,
+        { ...attachment, durationMs: recording.durationMs, waveform: recording.waveform },
+        'voice',
+        replyingTo?.id
+      );
+
+      setReplyingTo(null);
+    } catch (error) {
+      console.error('Error sending voice message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send voice message",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const startVoiceRecording = () => {
+    if (!selectedConversation || isUploading) return;
+
+    if (encryptionStatus !== 'unlocked') {
+      setKeyDialogOpen(true);
+      return;
+    }
+
+    voiceRecorder.start().catch((error) => {
+      console.error('Error accessing microphone:', error);
+      toast({
+        title: "Error",
+        description: "Could not access your microphone",
+        variant: "destructive"
+      });
+    });
+  };
+
+  const finishVoiceRecording = async () => {
+    if (!voiceRecorder.isRecording || !selectedConversation) return;
+
+    const conversationId = selectedConversation;
+    const recording = await voiceRecorder.stop();
+    if (!recording) {
+      toast({ title: "Hold the microphone button to record" });
+      return;
+    }
+
+    await sendVoiceMessage(conversationId, recording);
   };
 
   const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedConversation || !user) return;
+    const hasAttachments = pendingAttachments.length > 0;
+    if ((!newMessage.trim() && !hasAttachments) || !selectedConversation || !user || isUploading) return;
+
+    if (encryptionStatus !== 'unlocked') {
+      setKeyDialogOpen(true);
+      toast({
+        title: "Messages locked",
+        description: "Unlock your encryption keys to send messages",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (hasAttachments) {
+      const files = pendingAttachments;
+      const replyTo = replyingTo?.id;
+      setPendingAttachments([]);
+      setIsUploading(true);
+
+      // A reply goes on the first message sent, whichever kind it is
+      const failed = await sendAttachments(selectedConversation, files, replyTo);
+      setIsUploading(false);
+
+      if (failed.length > 0) {
+        setPendingAttachments(failed);
+        toast({
+          title: "Error",
+          description: `Failed to send ${failed.map(file => file.name).join(', ')}`,
+          variant: "destructive"
+        });
+      }
+
+      if (failed.length < files.length) {
+        setReplyingTo(null);
+      }
 
-    const tempMessage = {
-      id: `temp-${Date.now()}`,
+      if (!newMessage.trim()) return;
+    }
+
+    const replyTarget = hasAttachments ? null : replyingTo;
+    // Lets the stored row, whichever way it arrives, replace the optimistic copy
+    const clientId = crypto.randomUUID();
+    const tempMessage: ChatMessage = {
+      id: `temp-${clientId}`,
+      client_id: clientId,
       content: newMessage.trim(),
       sender_id: user.id,
       created_at: new Date().toISOString(),
-      reply_to: replyingTo?.id,
+      reply_to: replyTarget?.id,
       profiles: profile || { id: user.id, username: 'You', status: 'online' }
     };
 
     // Optimistically add message to UI
-    setConversations(prev => prev.map(conv => 
-      conv.id === selectedConversation 
-        ? { ...conv, messages: [...conv.messages, tempMessage] }
-        : conv
-    ));
+    conversationMessages.applyMessage(tempMessage);
 
     const messageText = newMessage.trim();
     setNewMessage('');
@@ -247,34 +554,42 @@ export default function ChatInterface() {
     setCharacterCount(0);
 
     try {
+      // Encrypt before insert so only ciphertext reaches the server
+      const { encryptedContent, encryptionKeyId, keyVersion } = await encryption.encryptMessage(
+        messageText,
+        selectedConversation
+      );
+
       const messageData: any = {
         conversation_id: selectedConversation,
         sender_id: user.id,
-        content: messageText
+        client_id: clientId,
+        content: '',
+        encrypted_content: encryptedContent,
+        encryption_key_id: encryptionKeyId,
+        key_version: keyVersion
       };
 
       // Add reply reference if replying
-      if (replyingTo) {
-        messageData.reply_to = replyingTo.id;
+      if (replyTarget) {
+        messageData.reply_to = replyTarget.id;
       }
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('messages')
-        .insert(messageData);
+        .insert(messageData)
+        .select(MESSAGE_COLUMNS)
+        .single();
 
       if (error) throw error;
 
-      // Refresh to get the real message with proper ID
-      fetchConversations();
+      // Swap in the real message with its proper ID
+      conversationMessages.applyMessage(data);
     } catch (error) {
       console.error('Error sending message:', error);
       
       // Remove the optimistic message on error
-      setConversations(prev => prev.map(conv => 
-        conv.id === selectedConversation 
-          ? { ...conv, messages: conv.messages.filter(m => m.id !== tempMessage.id) }
-          : conv
-      ));
+      conversationMessages.removeMessage(tempMessage.id);
 
       setNewMessage(messageText); // Restore message
       toast({
@@ -306,18 +621,20 @@ export default function ChatInterface() {
     return otherParticipants.map(p => p.username).join(', ') || 'Empty Chat';
   };
 
-  const startCall = async () => {
-    if (!selectedConversation || !user) return;
+  const startCall = async (callType: CallType, conversationId = selectedConversation) => {
+    if (!conversationId || !user) return;
+
+    const conversation = conversations.find(c => c.id === conversationId);
 
     try {
       // Create a new call
       const { data: call, error } = await supabase
         .from('calls')
         .insert({
-          conversation_id: selectedConversation,
+          conversation_id: conversationId,
           initiator_id: user.id,
-          call_type: 'voice',
-          status: 'active'
+          call_type: callType,
+          is_group_call: conversation?.type === 'group'
         })
         .select()
         .single();
@@ -332,7 +649,8 @@ export default function ChatInterface() {
           user_id: user.id
         });
 
-      setActiveCall(call.id);
+      setSelectedConversation(conversationId);
+      setActiveCall({ id: call.id, type: callType });
     } catch (error) {
       console.error('Error starting call:', error);
     }
@@ -389,16 +707,71 @@ export default function ChatInterface() {
 
   const handleAcceptCall = async () => {
     if (!incomingCall || !user) return;
-    
-    // Join the call
-    await supabase
-      .from('call_participants')
-      .insert({
-        call_id: incomingCall.id,
-        user_id: user.id
+
+    const showCallFull = () => {
+      toast({
+        title: "Call is full",
+        description: `Group calls are limited to ${MAX_MESH_PARTICIPANTS} people`,
+        variant: "destructive"
       });
+      setIncomingCall(null);
+    };
 
-    setActiveCall(incomingCall.id);
+    try {
+      const { count, error: countError } = await supabase
+        .from('call_participants')
+        .select('id', { count: 'exact', head: true })
+        .eq('call_id', incomingCall.id)
+        .is('left_at', null);
+
+      if (countError) throw countError;
+
+      if ((count ?? 0) >= MAX_MESH_PARTICIPANTS) {
+        showCallFull();
+        return;
+      }
+
+      const { data: callStatus, error: answerError } = await supabase.rpc('answer_call', {
+        call_id_param: incomingCall.id
+      });
+
+      if (answerError) throw answerError;
+
+      if (callStatus !== 'active') {
+        toast({
+          title: "Call ended",
+          description: "This call is no longer available"
+        });
+        setIncomingCall(null);
+        return;
+      }
+
+      // Join the call, or rejoin it after having left
+      const { error } = await supabase
+        .from('call_participants')
+        .upsert({
+          call_id: incomingCall.id,
+          user_id: user.id,
+          joined_at: new Date().toISOString(),
+          left_at: null
+        }, { onConflict: 'call_id,user_id' });
+
+      // The server has the final say when several people join at once
+      if (isCallFullError(error)) {
+        showCallFull();
+        return;
+      }
+      if (error) throw error;
+
+      setActiveCall({ id: incomingCall.id, type: incomingCall.call_type === 'video' ? 'video' : 'voice' });
+    } catch (error) {
+      console.error('Error joining call:', error);
+      toast({
+        title: "Error",
+        description: "Failed to join call",
+        variant: "destructive"
+      });
+    }
     setIncomingCall(null);
   };
 
@@ -451,6 +824,14 @@ export default function ChatInterface() {
               >
                 {theme === 'dark' ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => encryptionStatus === 'unlocked' ? encryption.lock() : setKeyDialogOpen(true)}
+                title={encryptionStatus === 'unlocked' ? 'Lock messages' : 'Unlock messages'}
+              >
+                {encryptionStatus === 'unlocked' ? <Unlock className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -472,56 +853,75 @@ export default function ChatInterface() {
           </div>
         </div>
 
-        {/* Conversations List */}
-        <div className="flex-1 overflow-y-auto">
-          {conversations.length > 0 && (
-            <div className="space-y-2 mb-4">
-              <h3 className="text-sm font-medium text-foreground px-4 py-2">
-                Conversations ({conversations.length})
-              </h3>
-              <div className="space-y-1">
-                {conversations.map((conversation) => (
-                  <div
-                    key={conversation.id}
-                    className={`flex items-center space-x-3 p-3 mx-2 rounded-lg hover:bg-accent cursor-pointer ${
-                      selectedConversation === conversation.id ? 'bg-accent' : ''
-                    }`}
-                    onClick={() => setSelectedConversation(conversation.id)}
-                  >
-                    <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center">
-                      <span className="text-sm font-medium text-primary">
-                        {getConversationName(conversation).charAt(0).toUpperCase()}
-                      </span>
-                    </div>
-                     <div className="flex-1 min-w-0">
-                       <div className="flex items-center space-x-1">
-                         <p className="text-sm font-medium truncate">
-                           {getConversationName(conversation)}
-                         </p>
-                         {conversation.type === 'group' && conversation.created_by === user?.id && (
-                           <Crown className="h-3 w-3 text-yellow-500 flex-shrink-0" />
-                         )}
-                       </div>
-                        <p className="text-xs text-muted-foreground">
-                          {conversation.type === 'group' 
-                            ? `${conversation.participants.length} members`
-                            : conversation.participants.find(p => p.id !== user?.id)?.username || 'Unknown'
-                          }
-                       </p>
-                     </div>
-                  </div>
-                ))}
+        {/* Conversations and Calls */}
+        <Tabs
+          value={sidebarTab}
+          onValueChange={(value) => setSidebarTab(value as 'chats' | 'calls')}
+          className="flex-1 flex flex-col min-h-0"
+        >
+          <TabsList className="grid grid-cols-2 mx-4 mt-2">
+            <TabsTrigger value="chats">Chats</TabsTrigger>
+            <TabsTrigger value="calls">Calls</TabsTrigger>
+          </TabsList>
+          <TabsContent value="chats" className="flex-1 overflow-y-auto">
+            {conversations.length > 0 && (
+              <div className="space-y-2 mb-4">
+                <h3 className="text-sm font-medium text-foreground px-4 py-2">
+                  Conversations ({conversations.length})
+                </h3>
+                <div className="space-y-1">
+                  {conversations.map((conversation) => (
+                    <ConversationListItem
+                      key={conversation.id}
+                      name={getConversationName(conversation)}
+                      subtitle={conversation.type === 'group'
+                        ? `${conversation.participants.length} members`
+                        : conversation.participants.find(p => p.id !== user?.id)?.username || 'Unknown'}
+                      isSelected={selectedConversation === conversation.id}
+                      isOwnedGroup={conversation.type === 'group' && conversation.created_by === user?.id}
+                      lastMessage={conversation.lastMessage}
+                      lastActivityAt={conversation.lastActivityAt}
+                      unreadCount={conversation.unreadCount}
+                      currentUserId={user?.id}
+                      onSelect={() => setSelectedConversation(conversation.id)}
+                    />
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
+            )}
           
-          {/* Friends List */}
-          <FriendsList onChatSelected={setSelectedConversation} onConversationCreated={fetchConversations} />
-        </div>
+            {/* Friends List */}
+            <FriendsList onChatSelected={setSelectedConversation} onConversationCreated={fetchConversations} />
+          </TabsContent>
+          <TabsContent value="calls" className="flex-1 overflow-y-auto">
+            <CallHistoryList
+              calls={callHistory.calls}
+              loading={callHistory.loading}
+              onCallBack={(conversationId, callType) => startCall(callType, conversationId)}
+              getConversationName={(conversationId) => {
+                const conversation = conversations.find(c => c.id === conversationId);
+                return conversation ? getConversationName(conversation) : undefined;
+              }}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
 
       {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col">
+      <div
+        className="flex-1 flex flex-col relative"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-10 m-4 rounded-lg border-2 border-dashed border-primary bg-background/90 flex items-center justify-center pointer-events-none">
+            <div className="text-center">
+              <Upload className="h-10 w-10 mx-auto text-primary mb-2" />
+              <p className="font-medium">Drop files to attach</p>
+            </div>
+          </div>
+        )}
         {selectedConversation ? (
           (() => {
             const conversation = conversations.find(c => c.id === selectedConversation);
@@ -546,12 +946,17 @@ export default function ChatInterface() {
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Button variant="ghost" size="icon" onClick={startCall}>
+                      <Button variant="ghost" size="icon" onClick={() => startCall('voice')}>
                         <Phone className="h-4 w-4" />
                       </Button>
-                      <Button variant="ghost" size="icon">
+                      <Button variant="ghost" size="icon" onClick={() => startCall('video')}>
                         <Video className="h-4 w-4" />
                       </Button>
+                      <CallHistoryDialog
+                        conversationId={conversation.id}
+                        conversationName={getConversationName(conversation)}
+                        onCallBack={(conversationId, callType) => startCall(callType, conversationId)}
+                      />
                       {conversation.type === 'group' && (
                         <GroupManagement
                           conversation={conversation}
@@ -566,18 +971,54 @@ export default function ChatInterface() {
                   </div>
                 </div>
 
+                {/* Key Change Warning */}
+                {contactVerification.status === 'changed' && directContact && (
+                  <div className="px-4 py-2 border-b border-destructive/30 bg-destructive/10 flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-sm text-destructive">
+                      <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                      <span>
+                        {directContact.username}'s security key has changed since you verified it.
+                      </span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelectedUserProfile(directContact.id)}
+                    >
+                      Verify again
+                    </Button>
+                  </div>
+                )}
+
                 {/* Messages */}
-                <div className="flex-1 overflow-y-auto p-4">
-                  {conversation.messages.map((message) => {
+                <div
+                  ref={messagesContainerRef}
+                  className="flex-1 overflow-y-auto p-4"
+                  onScroll={(e) => {
+                    if (e.currentTarget.scrollTop < 80) loadOlderMessages();
+                  }}
+                >
+                  {conversationMessages.loadingOlder ? (
+                    <div className="flex justify-center py-2">
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : !conversationMessages.hasMore && conversationMessages.messages.length > 0 && (
+                    <p className="text-center text-xs text-muted-foreground py-2">Beginning of conversation</p>
+                  )}
+                  {conversationMessages.messages.filter(message => !hiddenMessageIds.has(message.id)).map((message) => {
                     const replyToMessage = message.reply_to ? 
-                      conversation.messages.find(m => m.id === message.reply_to) : null;
+                      conversationMessages.messages.find(m => m.id === message.reply_to) : null;
                     return (
                       <MessageDisplay
                         key={message.id}
                         message={message}
+                        conversationId={conversation.id}
                         isCurrentUser={message.sender_id === user?.id}
                         onReply={setReplyingTo}
-                        onMessageDeleted={fetchConversations}
+                        onHideForMe={(messageId) => {
+                          if (user) setHiddenMessageIds(hideMessage(user.id, messageId));
+                        }}
+                        deleteWindowMinutes={conversation.delete_window_minutes ?? null}
                         replyToMessage={replyToMessage}
                       />
                     );
@@ -595,7 +1036,7 @@ export default function ChatInterface() {
                       <div className="flex justify-between items-start">
                         <div>
                           <span className="text-muted-foreground">Replying to:</span>
-                          <p className="truncate">{replyingTo.content || '[Encrypted Message]'}</p>
+                          <ReplyPreview message={replyingTo} />
                         </div>
                         <Button
                           variant="ghost"
@@ -608,38 +1049,114 @@ export default function ChatInterface() {
                       </div>
                     </div>
                   )}
+                  {pendingAttachments.length > 0 && (
+                    <div className="mb-2 flex flex-wrap gap-2">
+                      {pendingAttachments.map((file, index) => (
+                        <div
+                          key={`${file.name}-${index}`}
+                          className="flex items-center space-x-2 rounded bg-muted px-2 py-1 text-sm max-w-[240px]"
+                        >
+                          {file.type.startsWith('image/')
+                            ? <ImageIcon className="h-4 w-4 flex-shrink-0" />
+                            : <FileText className="h-4 w-4 flex-shrink-0" />}
+                          <span className="truncate">{file.name}</span>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">{formatFileSize(file.size)}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0 flex-shrink-0"
+                            onClick={() => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                            disabled={isUploading}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex space-x-2">
-                    <Input
-                      value={newMessage}
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      className="hidden"
                       onChange={(e) => {
-                        const value = e.target.value;
-                        if (value.length <= MAX_MESSAGE_LENGTH) {
-                          setNewMessage(value);
-                          setCharacterCount(value.length);
-                          handleTyping();
-                        }
-                      }}
-                      onKeyPress={(e) => {
-                        if (e.key === 'Enter') {
-                          sendMessage();
-                          stopTyping();
-                        }
+                        addAttachments(Array.from(e.target.files ?? []));
+                        e.target.value = '';
                       }}
-                      onBlur={stopTyping}
-                      placeholder="Type a message..."
-                      className="flex-1"
                     />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isUploading}
+                      title="Attach files"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
+                    {voiceRecorder.isRecording ? (
+                      <div className="flex-1 flex items-center space-x-3 px-3 rounded-md border border-destructive/50 text-sm">
+                        <span className="w-2 h-2 rounded-full bg-destructive animate-pulse" />
+                        <span className="tabular-nums">
+                          {Math.floor(voiceRecorder.elapsedMs / 60000)}:
+                          {Math.floor((voiceRecorder.elapsedMs % 60000) / 1000).toString().padStart(2, '0')}
+                        </span>
+                        <span className="text-muted-foreground truncate">
+                          Release to send, move away to cancel
+                        </span>
+                      </div>
+                    ) : (
+                      <Input
+                        value={newMessage}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          if (value.length <= MAX_MESSAGE_LENGTH) {
+                            setNewMessage(value);
+                            setCharacterCount(value.length);
+                            handleTyping();
+                          }
+                        }}
+                        onKeyPress={(e) => {
+                          if (e.key === 'Enter') {
+                            sendMessage();
+                            stopTyping();
+                          }
+                        }}
+                        onBlur={stopTyping}
+                        onPaste={handlePaste}
+                        placeholder="Type a message..."
+                        className="flex-1"
+                      />
+                    )}
                     <div className="text-xs text-muted-foreground px-2 self-center">
                       {characterCount}/{MAX_MESSAGE_LENGTH}
                     </div>
+                    <Button
+                      variant={voiceRecorder.isRecording ? "destructive" : "ghost"}
+                      size="icon"
+                      onPointerDown={(e) => {
+                        e.preventDefault();
+                        startVoiceRecording();
+                      }}
+                      onPointerUp={finishVoiceRecording}
+                      onPointerLeave={() => {
+                        if (voiceRecorder.isRecording) voiceRecorder.cancel();
+                      }}
+                      onContextMenu={(e) => e.preventDefault()}
+                      disabled={isUploading}
+                      title="Hold to record a voice message"
+                      className="touch-none"
+                    >
+                      <Mic className="h-4 w-4" />
+                    </Button>
                     <Button 
                       onClick={() => {
                         sendMessage();
                         stopTyping();
                       }} 
-                      disabled={!newMessage.trim()}
+                      disabled={(!newMessage.trim() && pendingAttachments.length === 0) || isUploading}
                     >
-                      <Send className="h-4 w-4" />
+                      {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
                     </Button>
                   </div>
                 </div>
@@ -662,7 +1179,8 @@ export default function ChatInterface() {
       {/* Call Interface */}
       {activeCall && selectedConversation && (
         <CallInterface
-          callId={activeCall}
+          callId={activeCall.id}
+          callType={activeCall.type}
           conversationId={selectedConversation}
           onEndCall={() => setActiveCall(null)}
         />
@@ -695,6 +1213,9 @@ export default function ChatInterface() {
         />
       )}
 
+      {/* Encryption Key Unlock */}
+      <KeyUnlockDialog open={keyDialogOpen} onOpenChange={setKeyDialogOpen} />
+
       {/* User Profile Modal */}
       {selectedUserProfile && (
         <UserProfileModal
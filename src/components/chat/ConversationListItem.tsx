@@ -0,0 +1,101 @@
+import { Badge } from '@/components/ui/badge';
+import { Crown } from 'lucide-react';
+import { useDecryptedContent } from '@/hooks/useDecryptedContent';
+import { messagePreviewText } from '@/lib/attachments';
+
+export interface ConversationLastMessage {
+  id: string;
+  sender_id: string | null;
+  content: string;
+  encrypted_content: string | null;
+  encryption_key_id: string | null;
+  message_type: string | null;
+  created_at: string;
+  deleted_at: string | null;
+}
+
+const formatActivityTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+interface ConversationListItemProps {
+  name: string;
+  // Shown when there are no messages yet
+  subtitle: string;
+  isSelected: boolean;
+  isOwnedGroup: boolean;
+  lastMessage: ConversationLastMessage | null;
+  lastActivityAt: string;
+  unreadCount: number;
+  currentUserId?: string;
+  onSelect: () => void;
+}
+
+export default function ConversationListItem({
+  name,
+  subtitle,
+  isSelected,
+  isOwnedGroup,
+  lastMessage,
+  lastActivityAt,
+  unreadCount,
+  currentUserId,
+  onSelect
+}: ConversationListItemProps) {
+  const decrypted = useDecryptedContent(lastMessage?.deleted_at ? null : lastMessage);
+
+  const preview = !lastMessage
+    ? subtitle
+    : lastMessage.deleted_at
+      ? 'Message deleted'
+      : decrypted.status === 'failed' || decrypted.status === 'locked'
+        ? 'Encrypted message'
+        : decrypted.content === null
+          ? ''
+          : messagePreviewText(lastMessage.message_type, decrypted.content);
+  const isEvent = lastMessage?.message_type === 'call' || lastMessage?.message_type === 'system';
+  const isOwnMessage = !!lastMessage && !isEvent && lastMessage.sender_id === currentUserId;
+
+  return (
+    <div
+      className={`flex items-center space-x-3 p-3 mx-2 rounded-lg hover:bg-accent cursor-pointer ${
+        isSelected ? 'bg-accent' : ''
+      }`}
+      onClick={onSelect}
+    >
+      <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
+        <span className="text-sm font-medium text-primary">
+          {name.charAt(0).toUpperCase()}
+        </span>
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-1">
+          <p className={`text-sm truncate ${unreadCount > 0 ? 'font-semibold' : 'font-medium'}`}>
+            {name}
+          </p>
+          {isOwnedGroup && (
+            <Crown className="h-3 w-3 text-yellow-500 flex-shrink-0" />
+          )}
+          {lastMessage && (
+            <span className="text-xs text-muted-foreground ml-auto flex-shrink-0">
+              {formatActivityTime(lastActivityAt)}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          <p className={`text-xs truncate ${unreadCount > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+            {isOwnMessage && 'You: '}{preview}
+          </p>
+          {unreadCount > 0 && (
+            <Badge className="ml-auto h-5 min-w-[1.25rem] px-1.5 justify-center flex-shrink-0">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
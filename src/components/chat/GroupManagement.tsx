@@ -17,7 +17,10 @@ import {
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { encryption } from '@/lib/encryption';
 import { Crown, MoreVertical, UserMinus, Trash2, Users } from 'lucide-react';
 
 interface Profile {
@@ -32,9 +35,18 @@ interface Conversation {
   name?: string;
   type: string;
   created_by?: string;
+  delete_window_minutes?: number | null;
   participants: Profile[];
 }
 
+// "any" stands for no limit, stored as NULL
+const DELETE_WINDOW_OPTIONS = [
+  { value: '5', label: '5 minutes' },
+  { value: '60', label: '1 hour' },
+  { value: '1440', label: '1 day' },
+  { value: 'any', label: 'Any time' }
+];
+
 interface GroupManagementProps {
   conversation: Conversation;
   onGroupUpdated: () => void;
@@ -62,6 +74,13 @@ export default function GroupManagement({ conversation, onGroupUpdated, onGroupD
 
       if (error) throw error;
 
+      // Issue a new key right away so the removed member can't read what comes next
+      if (encryption.getStatus() === 'unlocked') {
+        await encryption.rotateConversationKey(conversation.id).catch((rotateError) => {
+          console.error('Error rotating conversation key:', rotateError);
+        });
+      }
+
       toast({
         title: "Member removed",
         description: "Member has been removed from the group"
@@ -80,6 +99,31 @@ export default function GroupManagement({ conversation, onGroupUpdated, onGroupD
     }
   };
 
+  const updateDeleteWindow = async (value: string) => {
+    if (!user || !isGroupCreator) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('conversations')
+        .update({ delete_window_minutes: value === 'any' ? null : Number(value) })
+        .eq('id', conversation.id);
+
+      if (error) throw error;
+
+      onGroupUpdated();
+    } catch (error) {
+      console.error('Error updating delete window:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update group settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const deleteGroup = async () => {
     if (!user || !isGroupCreator) return;
 
@@ -174,6 +218,30 @@ export default function GroupManagement({ conversation, onGroupUpdated, onGroupD
             ))}
           </div>
           
+          {isGroupCreator && (
+            <div className="flex items-center justify-between border-t pt-4">
+              <Label htmlFor="delete-window" className="text-sm">
+                Delete for everyone allowed within
+              </Label>
+              <Select
+                value={conversation.delete_window_minutes == null ? 'any' : String(conversation.delete_window_minutes)}
+                onValueChange={updateDeleteWindow}
+                disabled={loading}
+              >
+                <SelectTrigger id="delete-window" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELETE_WINDOW_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {isGroupCreator && (
             <DialogFooter className="border-t pt-4">
               <Button
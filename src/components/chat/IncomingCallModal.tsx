@@ -1,15 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Phone, PhoneOff } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { CALL_RING_TIMEOUT_MS } from '@/lib/calls';
 
 interface IncomingCallModalProps {
   call: {
     id: string;
     initiator_id: string;
     conversation_id: string;
+    call_type?: string;
+    started_at?: string;
     initiator_profile?: {
       username: string;
       avatar_url?: string;
@@ -22,6 +25,9 @@ interface IncomingCallModalProps {
 export default function IncomingCallModal({ call, onAccept, onDecline }: IncomingCallModalProps) {
   const { user } = useAuth();
   const [ringingAudio, setRingingAudio] = useState<HTMLAudioElement | null>(null);
+  // The parent passes a new callback on every render; that mustn't restart the expiry timer
+  const onDeclineRef = useRef(onDecline);
+  onDeclineRef.current = onDecline;
 
   useEffect(() => {
     // Create ringing sound
@@ -40,6 +46,20 @@ export default function IncomingCallModal({ call, onAccept, onDecline }: Incomin
     };
   }, []);
 
+  // Stop ringing once the caller's time is up; the server marks the call as missed
+  useEffect(() => {
+    const startedAt = call.started_at ? new Date(call.started_at).getTime() : Date.now();
+    const remaining = Math.max(startedAt + CALL_RING_TIMEOUT_MS - Date.now(), 0);
+
+    const timeout = setTimeout(async () => {
+      const { error } = await supabase.rpc('expire_unanswered_call', { call_id_param: call.id });
+      if (error) console.error('Error expiring call:', error);
+      onDeclineRef.current();
+    }, remaining + 1000);
+
+    return () => clearTimeout(timeout);
+  }, [call.id, call.started_at]);
+
   const handleAccept = () => {
     ringingAudio?.pause();
     onAccept();
@@ -48,11 +68,8 @@ export default function IncomingCallModal({ call, onAccept, onDecline }: Incomin
   const handleDecline = async () => {
     ringingAudio?.pause();
     
-    // End the call in database
-    await supabase
-      .from('calls')
-      .update({ status: 'declined', ended_at: new Date().toISOString() })
-      .eq('id', call.id);
+    const { error } = await supabase.rpc('decline_call', { call_id_param: call.id });
+    if (error) console.error('Error declining call:', error);
 
     onDecline();
   };
@@ -70,7 +87,9 @@ export default function IncomingCallModal({ call, onAccept, onDecline }: Incomin
           <h3 className="text-lg font-semibold mb-1">
             {call.initiator_profile?.username}
           </h3>
-          <p className="text-muted-foreground text-sm">Incoming Call...</p>
+          <p className="text-muted-foreground text-sm">
+            {call.call_type === 'video' ? 'Incoming Video Call...' : 'Incoming Call...'}
+          </p>
         </div>
 
         <div className="flex justify-center space-x-4">
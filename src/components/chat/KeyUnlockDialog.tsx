@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useEncryptionStatus } from '@/hooks/useEncryption';
+import { encryption } from '@/lib/encryption';
+import { KeyRound, Lock, AlertTriangle } from 'lucide-react';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface KeyUnlockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function KeyUnlockDialog({ open, onOpenChange }: KeyUnlockDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const status = useEncryptionStatus();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [loading, setLoading] = useState(false);
+  // The account already has an identity on another device, which setup would replace
+  const [hasIdentityElsewhere, setHasIdentityElsewhere] = useState(false);
+  const [replaceIdentity, setReplaceIdentity] = useState(false);
+
+  const isSetup = status === 'needs-setup';
+  const mustRestore = isSetup && hasIdentityElsewhere && !replaceIdentity;
+
+  useEffect(() => {
+    if (!open || !isSetup || !user) return;
+
+    let cancelled = false;
+    setReplaceIdentity(false);
+    encryption.needsKeyRestore(user.id)
+      .then((needsRestore) => {
+        if (!cancelled) setHasIdentityElsewhere(needsRestore);
+      })
+      .catch((error) => console.error('Error checking encryption keys:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isSetup, user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isSetup) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        toast({
+          title: "Error",
+          description: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+          variant: "destructive"
+        });
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        toast({
+          title: "Error",
+          description: "Passphrases do not match",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      if (isSetup) {
+        await encryption.setupPassphrase(passphrase, { replaceIdentity });
+      } else {
+        await encryption.unlock(passphrase);
+      }
+
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error unlocking keys:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock your keys",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            {isSetup ? <KeyRound className="h-5 w-5" /> : <Lock className="h-5 w-5" />}
+            <span>{isSetup ? 'Protect your encryption keys' : 'Unlock your messages'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {isSetup && hasIdentityElsewhere
+              ? 'Your account already has encryption keys on another device. Restore them here from a key backup to read your messages.'
+              : isSetup
+                ? 'Choose a passphrase to encrypt your keys on this device. You will need it each time you unlock your messages.'
+                : 'Enter your passphrase to decrypt your keys on this device.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isSetup && hasIdentityElsewhere && (
+            <div className="space-y-3">
+              <Button type="button" onClick={() => navigate('/auth')} className="w-full">
+                Restore keys from a backup
+              </Button>
+              <div className="flex items-start space-x-2 rounded border border-destructive/30 bg-destructive/10 p-3">
+                <Checkbox
+                  id="replace-identity"
+                  checked={replaceIdentity}
+                  onCheckedChange={(checked) => setReplaceIdentity(checked === true)}
+                  className="mt-0.5"
+                />
+                <Label htmlFor="replace-identity" className="text-sm font-normal leading-snug">
+                  <span className="flex items-center space-x-1 font-medium text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>Replace my identity instead</span>
+                  </span>
+                  Your other devices won't be able to read new messages, earlier messages can't be
+                  read here, and your contacts will see that your security key changed.
+                </Label>
+              </div>
+            </div>
+          )}
+
+          {!mustRestore && (
+            <div className="space-y-2">
+              <Label htmlFor="key-passphrase">Passphrase</Label>
+              <Input
+                id="key-passphrase"
+                type="password"
+                placeholder="Enter passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoFocus
+                required
+              />
+            </div>
+          )}
+
+          {isSetup && !mustRestore && (
+            <div className="space-y-2">
+              <Label htmlFor="key-passphrase-confirm">Confirm passphrase</Label>
+              <Input
+                id="key-passphrase-confirm"
+                type="password"
+                placeholder="Repeat passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                required
+              />
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+              className="flex-1"
+            >
+              Not now
+            </Button>
+            <Button type="submit" disabled={loading || !passphrase || mustRestore} className="flex-1">
+              {loading
+                ? (isSetup ? 'Setting up...' : 'Unlocking...')
+                : (isSetup ? 'Set passphrase' : 'Unlock')}
+            </Button>
+          </div>
+
+          {isSetup && !hasIdentityElsewhere && (
+            <Button
+              type="button"
+              variant="link"
+              onClick={() => navigate('/auth')}
+              className="w-full"
+            >
+              Restore keys from a backup instead
+            </Button>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
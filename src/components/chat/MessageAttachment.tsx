@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Download, FileText, ImageOff, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Attachment, downloadAttachment, formatFileSize, saveBlob } from '@/lib/attachments';
+
+interface MessageAttachmentProps {
+  attachment: Attachment;
+  messageType: 'image' | 'file';
+}
+
+export default function MessageAttachment({ attachment, messageType }: MessageAttachmentProps) {
+  const { toast } = useToast();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (messageType !== 'image') return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    downloadAttachment(attachment)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImageUrl(url);
+      })
+      .catch((error) => {
+        console.error('Error loading image:', error);
+        if (!cancelled) setImageFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, messageType]);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      saveBlob(await downloadAttachment(attachment), attachment.name);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download file",
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (messageType === 'image') {
+    if (imageFailed) {
+      return (
+        <div className="flex items-center space-x-2 text-sm opacity-70 py-2">
+          <ImageOff className="h-4 w-4" />
+          <span>Image unavailable</span>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {imageUrl ? (
+          <button
+            type="button"
+            onClick={() => setLightboxOpen(true)}
+            className="block rounded-md overflow-hidden my-1"
+          >
+            <img
+              src={imageUrl}
+              alt={attachment.name}
+              className="max-h-64 max-w-full object-cover"
+            />
+          </button>
+        ) : (
+          <div className="w-48 h-32 my-1 rounded-md bg-background/20 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin opacity-70" />
+          </div>
+        )}
+
+        <Dialog open={lightboxOpen} onOpenChange={setLightboxOpen}>
+          <DialogContent className="max-w-5xl p-2 bg-black/90 border-none">
+            <DialogTitle className="sr-only">{attachment.name}</DialogTitle>
+            {imageUrl && (
+              <img
+                src={imageUrl}
+                alt={attachment.name}
+                className="max-h-[85vh] w-full object-contain"
+              />
+            )}
+            <div className="flex items-center justify-between px-2 pb-1 text-sm text-white">
+              <span className="truncate">{attachment.name}</span>
+              <Button variant="ghost" size="sm" onClick={handleDownload} disabled={downloading}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-3 my-1 p-2 rounded-md bg-background/20 min-w-[200px]">
+      <FileText className="h-8 w-8 flex-shrink-0 opacity-80" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{attachment.name}</p>
+        <p className="text-xs opacity-70">{formatFileSize(attachment.size)}</p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 flex-shrink-0"
+        onClick={handleDownload}
+        disabled={downloading}
+        title="Download"
+      >
+        {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
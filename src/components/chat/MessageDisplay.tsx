@@ -1,10 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Trash2, Reply, MoreVertical, Smile } from 'lucide-react';
+import { Trash2, Reply, MoreVertical, Smile, Lock, Phone, Info, Pencil, Ban, EyeOff } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useDecryptedContent } from '@/hooks/useDecryptedContent';
+import { encryption } from '@/lib/encryption';
+import { ATTACHMENT_BUCKET, isAttachmentMessage, parseAttachment } from '@/lib/attachments';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +21,13 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import UserProfileModal from './UserProfileModal';
+import MessageAttachment from './MessageAttachment';
+import VoiceMessagePlayer from './VoiceMessagePlayer';
+import ReplyPreview from './ReplyPreview';
+import MessageEditHistory from './MessageEditHistory';
+
+// Same limit as the composer
+const MAX_EDIT_LENGTH = 2000;
 
 interface MessageReaction {
   id: string;
@@ -29,29 +40,64 @@ interface MessageDisplayProps {
   message: {
     id: string;
     content: string;
+    encrypted_content?: string | null;
+    encryption_key_id?: string | null;
     sender_id: string;
     created_at: string;
-    reply_to?: string;
+    reply_to?: string | null;
+    message_type?: string | null;
+    edited_at?: string | null;
+    deleted_at?: string | null;
     profiles?: {
       username: string;
       display_name?: string;
       avatar_url?: string;
     };
   };
+  conversationId: string;
   isCurrentUser: boolean;
   onReply?: (message: any) => void;
   onMessageDeleted?: () => void;
+  onMessageEdited?: () => void;
+  onHideForMe?: (messageId: string) => void;
+  // Minutes after sending that "delete for everyone" is allowed; null means any time
+  deleteWindowMinutes?: number | null;
   replyToMessage?: any;
 }
 
-export default function MessageDisplay({ message, isCurrentUser, onReply, onMessageDeleted, replyToMessage }: MessageDisplayProps) {
+export default function MessageDisplay({
+  message,
+  conversationId,
+  isCurrentUser,
+  onReply,
+  onMessageDeleted,
+  onMessageEdited,
+  onHideForMe,
+  deleteWindowMinutes = null,
+  replyToMessage
+}: MessageDisplayProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [reactions, setReactions] = useState<MessageReaction[]>([]);
   const [showUserProfile, setShowUserProfile] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const decrypted = useDecryptedContent(message);
+
+  // Calls and membership changes are written by the server and shown as timeline events
+  const isEvent = message.message_type === 'call' || message.message_type === 'system';
+  const attachmentType = isAttachmentMessage(message.message_type) ? message.message_type : null;
+  // Parsed once per body so the attachment isn't downloaded again on every render
+  const attachment = useMemo(
+    () => (attachmentType ? parseAttachment(decrypted.content) : null),
+    [attachmentType, decrypted.content]
+  );
 
   // Fetch reactions for this message
   useEffect(() => {
+    if (isEvent) return;
+
     const fetchReactions = async () => {
       const { data, error } = await supabase
         .from('message_reactions')
@@ -93,7 +139,7 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [message.id]);
+  }, [message.id, isEvent]);
 
   const addReaction = async (emoji: string) => {
     try {
@@ -147,19 +193,25 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
     }
   };
 
-  const deleteMessage = async () => {
+  const deleteForEveryone = async () => {
     try {
-      const { error } = await supabase
-        .from('messages')
-        .delete()
-        .eq('id', message.id)
-        .eq('sender_id', user?.id); // Extra security check
+      const { error } = await supabase.rpc('delete_message_for_everyone', {
+        message_id_param: message.id
+      });
 
       if (error) throw error;
 
+      // The server can't read the body, so the file itself is removed from here
+      if (attachment) {
+        const { error: storageError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .remove([attachment.path]);
+        if (storageError) console.error('Error removing attachment:', storageError);
+      }
+
       toast({
         title: "Message deleted",
-        description: "Your message has been deleted"
+        description: "Your message has been deleted for everyone"
       });
 
       onMessageDeleted?.();
@@ -167,12 +219,68 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
       console.error('Error deleting message:', error);
       toast({
         title: "Error",
-        description: "Failed to delete message",
+        description: error.message || "Failed to delete message",
         variant: "destructive"
       });
     }
   };
 
+  const isDeleted = !!message.deleted_at;
+  const isSaved = !message.id.startsWith('temp-');
+
+  // Only text we could read can be edited; attachments keep their body
+  const canEdit = isCurrentUser && isSaved && !isDeleted && !attachmentType &&
+    (decrypted.status === 'decrypted' || decrypted.status === 'plaintext');
+
+  const canDeleteForEveryone = isCurrentUser && isSaved && !isDeleted && (
+    deleteWindowMinutes === null ||
+    Date.now() - new Date(message.created_at).getTime() < deleteWindowMinutes * 60_000
+  );
+
+  const startEditing = () => {
+    setEditText(decrypted.content ?? '');
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    const text = editText.trim();
+    if (!text || text === decrypted.content) {
+      setIsEditing(false);
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      // Encrypted with the conversation's current key, even if the original used an older one
+      const { encryptedContent, encryptionKeyId, keyVersion } = await encryption.encryptMessage(text, conversationId);
+
+      const { error } = await supabase
+        .from('messages')
+        .update({
+          content: '',
+          encrypted_content: encryptedContent,
+          encryption_key_id: encryptionKeyId,
+          key_version: keyVersion
+        })
+        .eq('id', message.id)
+        .eq('sender_id', user?.id);
+
+      if (error) throw error;
+
+      setIsEditing(false);
+      onMessageEdited?.();
+    } catch (error) {
+      console.error('Error editing message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
   const formatMessageTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -180,6 +288,19 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
     });
   };
 
+  if (isEvent) {
+    return (
+      <div className="flex justify-center my-3">
+        <div className="flex items-center space-x-2 px-3 py-1 rounded-full bg-muted text-xs text-muted-foreground select-none">
+          {message.message_type === 'call' ? <Phone className="h-3 w-3" /> : <Info className="h-3 w-3" />}
+          <span>{message.content}</span>
+          <span>·</span>
+          <span>{formatMessageTime(message.created_at)}</span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} group mb-4`}>
       {!isCurrentUser && (
@@ -196,7 +317,7 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
         {message.reply_to && replyToMessage && (
           <div className={`text-xs text-muted-foreground mb-1 p-2 rounded bg-accent/50 border-l-2 border-primary/50 ${isCurrentUser ? 'ml-auto' : ''}`}>
             <span className="font-medium">Replying to {replyToMessage.profiles?.username}:</span>
-            <div className="truncate">{replyToMessage.content?.substring(0, 50)}...</div>
+            <ReplyPreview message={replyToMessage} />
           </div>
         )}
         
@@ -217,18 +338,72 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
             </button>
           )}
           
-          <p className="text-sm break-words">
-            {message.content}
-          </p>
+          {isDeleted ? (
+            <p className="text-sm italic opacity-70 flex items-center">
+              <Ban className="h-3 w-3 mr-1 flex-shrink-0" />
+              This message was deleted
+            </p>
+          ) : decrypted.status === 'failed' ? (
+            <p className="text-sm italic opacity-70 flex items-center">
+              <Lock className="h-3 w-3 mr-1 flex-shrink-0" />
+              Could not decrypt this message
+            </p>
+          ) : decrypted.status === 'locked' ? (
+            <p className="text-sm italic opacity-70 flex items-center">
+              <Lock className="h-3 w-3 mr-1 flex-shrink-0" />
+              Unlock your keys to read this message
+            </p>
+          ) : attachmentType && attachment ? (
+            attachmentType === 'voice'
+              ? <VoiceMessagePlayer attachment={attachment} />
+              : <MessageAttachment attachment={attachment} messageType={attachmentType} />
+          ) : attachmentType && decrypted.status !== 'decrypting' ? (
+            <p className="text-sm italic opacity-70">Attachment unavailable</p>
+          ) : isEditing ? (
+            <div className="space-y-2 min-w-[220px]">
+              <Textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value.slice(0, MAX_EDIT_LENGTH))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                autoFocus
+                rows={2}
+                className="text-sm text-foreground bg-background"
+              />
+              <div className="flex justify-end space-x-2">
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => setIsEditing(false)} disabled={savingEdit}>
+                  Cancel
+                </Button>
+                <Button variant="secondary" size="sm" className="h-7" onClick={saveEdit} disabled={savingEdit || !editText.trim()}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm break-words">
+              {decrypted.status === 'decrypting' ? 'Decrypting...' : decrypted.content}
+            </p>
+          )}
           <div className="flex items-center justify-between mt-1">
-            <p className="text-xs opacity-70">
-              {formatMessageTime(message.created_at)}
-          </p>
+            <div className="flex items-center space-x-1">
+              <p className="text-xs opacity-70">
+                {formatMessageTime(message.created_at)}
+              </p>
+              {message.edited_at && !isDeleted && (
+                <MessageEditHistory messageId={message.id} editedAt={message.edited_at} />
+              )}
+            </div>
           
           {/* Message Actions */}
           <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center space-x-1">
             {/* Only show reply button for other users' messages */}
-            {onReply && !isCurrentUser && (
+            {onReply && !isCurrentUser && !isDeleted && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -240,7 +415,7 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
             )}
             
             {/* Emoji reactions - only for other users' messages */}
-            {!isCurrentUser && (
+            {!isCurrentUser && !isDeleted && (
               <Popover>
                 <PopoverTrigger asChild>
                   <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
@@ -267,7 +442,7 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
               </Popover>
             )}
             
-            {isCurrentUser && (
+            {isSaved && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
@@ -275,13 +450,27 @@ export default function MessageDisplay({ message, isCurrentUser, onReply, onMess
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem 
-                    onClick={deleteMessage}
-                    className="text-destructive focus:text-destructive"
-                  >
-                    <Trash2 className="h-3 w-3 mr-2" />
-                    Delete
-                  </DropdownMenuItem>
+                  {canEdit && (
+                    <DropdownMenuItem onClick={startEditing}>
+                      <Pencil className="h-3 w-3 mr-2" />
+                      Edit
+                    </DropdownMenuItem>
+                  )}
+                  {onHideForMe && (
+                    <DropdownMenuItem onClick={() => onHideForMe(message.id)}>
+                      <EyeOff className="h-3 w-3 mr-2" />
+                      Delete for me
+                    </DropdownMenuItem>
+                  )}
+                  {canDeleteForEveryone && (
+                    <DropdownMenuItem
+                      onClick={deleteForEveryone}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3 mr-2" />
+                      Delete for everyone
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
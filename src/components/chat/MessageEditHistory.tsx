@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { supabase } from '@/integrations/supabase/client';
+import { useDecryptedContent } from '@/hooks/useDecryptedContent';
+
+interface MessageEdit {
+  id: string;
+  content: string;
+  encrypted_content: string | null;
+  encryption_key_id: string | null;
+  edited_at: string;
+}
+
+const formatEditTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+function EditVersion({ edit }: { edit: MessageEdit }) {
+  const decrypted = useDecryptedContent(edit);
+
+  return (
+    <div className="space-y-0.5">
+      <p className="text-xs text-muted-foreground">Replaced {formatEditTime(edit.edited_at)}</p>
+      <p className="text-sm break-words">
+        {decrypted.status === 'failed'
+          ? <span className="italic">Could not decrypt this version</span>
+          : decrypted.status === 'locked'
+            ? <span className="italic">Unlock your keys to read this version</span>
+            : decrypted.content ?? 'Decrypting...'}
+      </p>
+    </div>
+  );
+}
+
+interface MessageEditHistoryProps {
+  messageId: string;
+  editedAt: string;
+}
+
+export default function MessageEditHistory({ messageId, editedAt }: MessageEditHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchEdits = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('id, content, encrypted_content, encryption_key_id, edited_at')
+        .eq('message_id', messageId)
+        .order('edited_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching edit history:', error);
+      } else {
+        setEdits(data);
+      }
+      setLoading(false);
+    };
+
+    fetchEdits();
+  }, [open, messageId, editedAt]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="text-xs opacity-70 hover:underline" title="View edit history">
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 max-h-80 overflow-y-auto space-y-3">
+        <p className="text-sm font-medium">Edit history</p>
+        {loading && edits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : edits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions</p>
+        ) : (
+          edits.map(edit => <EditVersion key={edit.id} edit={edit} />)
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,49 @@
+import { Lock } from 'lucide-react';
+import { useDecryptedContent } from '@/hooks/useDecryptedContent';
+import { messagePreviewText } from '@/lib/attachments';
+
+const REPLY_PREVIEW_LENGTH = 50;
+
+const truncatePreview = (text: string) =>
+  text.length > REPLY_PREVIEW_LENGTH ? `${text.substring(0, REPLY_PREVIEW_LENGTH)}...` : text;
+
+interface ReplyPreviewProps {
+  message: {
+    id: string;
+    content: string;
+    encrypted_content?: string | null;
+    encryption_key_id?: string | null;
+    message_type?: string | null;
+    deleted_at?: string | null;
+  };
+}
+
+// The replied-to message's text, or why it can't be shown
+export default function ReplyPreview({ message }: ReplyPreviewProps) {
+  const decrypted = useDecryptedContent(message.deleted_at ? null : message);
+
+  if (message.deleted_at) {
+    return <div className="truncate italic">This message was deleted</div>;
+  }
+
+  if (decrypted.status === 'failed' || decrypted.status === 'locked') {
+    return (
+      <div className="truncate italic flex items-center">
+        <Lock className="h-3 w-3 mr-1 flex-shrink-0" />
+        {decrypted.status === 'failed'
+          ? 'Could not decrypt this message'
+          : 'Unlock your keys to read this message'}
+      </div>
+    );
+  }
+
+  if (decrypted.status === 'decrypting' || decrypted.content === null) {
+    return <div className="truncate italic">Decrypting...</div>;
+  }
+
+  return (
+    <div className="truncate">
+      {truncatePreview(messagePreviewText(message.message_type, decrypted.content))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, ShieldAlert, Shield } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useKeyVerification } from '@/hooks/useKeyVerification';
+import { computeSafetyNumber, SafetyNumber } from '@/lib/fingerprint';
+
+interface SafetyNumberPanelProps {
+  contactId: string;
+  contactName: string;
+}
+
+export default function SafetyNumberPanel({ contactId, contactName }: SafetyNumberPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { status, loading, ownPublicKey, contactPublicKey, markVerified, clearVerification } = useKeyVerification(contactId);
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user || !ownPublicKey || !contactPublicKey) {
+      setSafetyNumber(null);
+      return;
+    }
+
+    let cancelled = false;
+    computeSafetyNumber(user.id, ownPublicKey, contactId, contactPublicKey)
+      .then((result) => {
+        if (!cancelled) setSafetyNumber(result);
+      })
+      .catch((error) => console.error('Error computing safety number:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, contactId, ownPublicKey, contactPublicKey]);
+
+  const toggleVerified = async () => {
+    setSaving(true);
+    try {
+      if (status === 'verified') {
+        await clearVerification();
+      } else {
+        await markVerified();
+        toast({
+          title: "Contact verified",
+          description: `You'll be warned if ${contactName}'s security key changes`
+        });
+      }
+    } catch (error) {
+      console.error('Error updating verification:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update verification",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return null;
+
+  if (status === 'unavailable') {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <Shield className="h-4 w-4" />
+        <span>No security key to verify yet</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 p-4 bg-muted rounded-lg">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Safety number</span>
+        {status === 'verified' && (
+          <Badge variant="secondary" className="flex items-center space-x-1">
+            <ShieldCheck className="h-3 w-3 text-green-500" />
+            <span>Verified</span>
+          </Badge>
+        )}
+        {status === 'changed' && (
+          <Badge variant="destructive" className="flex items-center space-x-1">
+            <ShieldAlert className="h-3 w-3" />
+            <span>Key changed</span>
+          </Badge>
+        )}
+      </div>
+
+      {safetyNumber && (
+        <div className="flex items-center space-x-4">
+          <div className="grid grid-cols-8 gap-px w-20 h-20 flex-shrink-0 bg-background p-1 rounded">
+            {safetyNumber.grid.flatMap((row, rowIndex) =>
+              row.map((filled, colIndex) => (
+                <div
+                  key={`${rowIndex}-${colIndex}`}
+                  className={filled ? 'bg-foreground' : 'bg-background'}
+                />
+              ))
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-x-3 gap-y-1 font-mono text-sm">
+            {safetyNumber.groups.map((group, index) => (
+              <span key={index}>{group}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Compare this number with {contactName} in person or over a trusted channel.
+        If it matches on both devices, your messages can't be read by anyone else.
+      </p>
+
+      <Button
+        variant={status === 'verified' ? 'outline' : 'default'}
+        size="sm"
+        onClick={toggleVerified}
+        disabled={saving}
+        className="w-full"
+      >
+        {status === 'verified' ? 'Clear verification' : 'Mark as verified'}
+      </Button>
+    </div>
+  );
+}
@@ -7,7 +7,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { User, Edit } from 'lucide-react';
+import { useEncryptionStatus } from '@/hooks/useEncryption';
+import { encryption } from '@/lib/encryption';
+import { User, Edit, Download } from 'lucide-react';
+
+const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
 
 interface Profile {
   id: string;
@@ -27,6 +31,9 @@ export default function UserProfile() {
     display_name: '',
     bio: ''
   });
+  const encryptionStatus = useEncryptionStatus();
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     if (user && open) {
@@ -90,6 +97,46 @@ export default function UserProfile() {
     }
   };
 
+  const exportKeyBackup = async () => {
+    if (!profile) return;
+
+    if (backupPassphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      toast({
+        title: "Error",
+        description: `Backup passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const backup = await encryption.exportBackup(backupPassphrase);
+
+      const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `pure-converse-keys-${profile.username}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setBackupPassphrase('');
+      toast({
+        title: "Backup downloaded",
+        description: "Keep the file and its passphrase somewhere safe"
+      });
+    } catch (error) {
+      console.error('Error exporting key backup:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export key backup",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -151,6 +198,32 @@ export default function UserProfile() {
                 {loading ? 'Updating...' : 'Update Profile'}
               </Button>
             </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="backup_passphrase">Encryption Key Backup</Label>
+              <p className="text-xs text-muted-foreground">
+                {encryptionStatus === 'unlocked'
+                  ? 'Download your keys, encrypted with a passphrase, to restore your message history on another device.'
+                  : 'Unlock your messages to export a key backup.'}
+              </p>
+              <Input
+                id="backup_passphrase"
+                type="password"
+                placeholder="Backup passphrase"
+                value={backupPassphrase}
+                onChange={(e) => setBackupPassphrase(e.target.value)}
+                disabled={encryptionStatus !== 'unlocked'}
+              />
+              <Button
+                variant="outline"
+                onClick={exportKeyBackup}
+                disabled={exporting || encryptionStatus !== 'unlocked' || !backupPassphrase}
+                className="w-full"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {exporting ? 'Exporting...' : 'Download Backup'}
+              </Button>
+            </div>
           </div>
         )}
       </DialogContent>
@@ -5,6 +5,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Badge } from '@/components/ui/badge';
 import { MessageCircle, Calendar, User, Crown } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import SafetyNumberPanel from './SafetyNumberPanel';
 
 interface UserProfileModalProps {
   userId: string;
@@ -24,6 +26,7 @@ interface UserProfile {
 }
 
 export default function UserProfileModal({ userId, isOpen, onClose, onStartChat }: UserProfileModalProps) {
+  const { user } = useAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -152,6 +155,14 @@ export default function UserProfileModal({ userId, isOpen, onClose, onStartChat
             </div>
           </div>
 
+          {/* Safety Number */}
+          {user && userId !== user.id && (
+            <SafetyNumberPanel
+              contactId={userId}
+              contactName={profile.display_name || profile.username}
+            />
+          )}
+
           {/* Actions */}
           {onStartChat && (
             <div className="flex justify-center pt-4">
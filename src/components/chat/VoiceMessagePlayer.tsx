@@ -0,0 +1,148 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Play, Pause, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Attachment, downloadAttachment } from '@/lib/attachments';
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+const formatTime = (totalSeconds: number) => {
+  const seconds = Math.max(Math.floor(totalSeconds), 0);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+interface VoiceMessagePlayerProps {
+  attachment: Attachment;
+}
+
+export default function VoiceMessagePlayer({ attachment }: VoiceMessagePlayerProps) {
+  const { toast } = useToast();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const duration = (attachment.durationMs ?? 0) / 1000;
+  const progress = duration > 0 ? Math.min(currentTime / duration, 1) : 0;
+  const waveform = attachment.waveform?.length ? attachment.waveform : Array(40).fill(0.3);
+
+  useEffect(() => {
+    return () => {
+      if (audioUrl) URL.revokeObjectURL(audioUrl);
+    };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate, audioUrl]);
+
+  // Downloaded on first play rather than for every voice note in the conversation
+  const loadAudio = async () => {
+    setLoading(true);
+    try {
+      const blob = await downloadAttachment(attachment);
+      setAudioUrl(URL.createObjectURL(blob));
+    } catch (error) {
+      console.error('Error loading voice message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load voice message",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current;
+    if (!audioUrl || !audio) {
+      await loadAudio();
+      return;
+    }
+
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      audio.play().catch((error) => console.error('Error playing voice message:', error));
+    }
+  };
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || duration === 0) return;
+
+    const bounds = event.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((event.clientX - bounds.left) / bounds.width) * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const cyclePlaybackRate = () => {
+    setPlaybackRate(rate => PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+  };
+
+  return (
+    <div className="flex items-center space-x-2 my-1 min-w-[220px]">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 rounded-full flex-shrink-0"
+        onClick={togglePlayback}
+        disabled={loading}
+      >
+        {loading
+          ? <Loader2 className="h-4 w-4 animate-spin" />
+          : isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+
+      <div
+        className={cn("flex-1 flex items-center h-8 space-x-[2px]", audioUrl && "cursor-pointer")}
+        onClick={seek}
+      >
+        {waveform.map((level, index) => (
+          <div
+            key={index}
+            className={cn(
+              "flex-1 rounded-full transition-colors",
+              index / waveform.length < progress ? "bg-current" : "bg-current opacity-40"
+            )}
+            style={{ height: `${Math.max(level * 100, 10)}%` }}
+          />
+        ))}
+      </div>
+
+      <span className="text-xs opacity-70 tabular-nums flex-shrink-0">
+        {formatTime(isPlaying || currentTime > 0 ? currentTime : duration)}
+      </span>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1 text-xs flex-shrink-0"
+        onClick={cyclePlaybackRate}
+      >
+        {playbackRate}×
+      </Button>
+
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          autoPlay
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => {
+            setIsPlaying(false);
+            setCurrentTime(0);
+          }}
+          onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef } from 'react';
+import { AudioLevelMonitor, createAudioLevelMonitor } from '@/lib/audioLevel';
+
+const SPEAKING_THRESHOLD = 0.08;
+// Pauses between words shorter than this don't count as having stopped speaking
+const SPEAKING_HOLD_MS = 600;
+const POLL_INTERVAL_MS = 100;
+
+// audioTracks maps user ids to the audio they're sending; null when muted or not connected yet
+export function useActiveSpeaker(audioTracks: Record<string, MediaStreamTrack | null | undefined>) {
+  const [speakingIds, setSpeakingIds] = useState<string[]>([]);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const audioTracksRef = useRef(audioTracks);
+
+  audioTracksRef.current = audioTracks;
+
+  // Only restart the analysers when the set of tracks actually changes
+  const trackKey = Object.entries(audioTracks)
+    .filter(([, track]) => !!track)
+    .map(([userId, track]) => `${userId}:${track?.id}`)
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    const monitors = new Map<string, AudioLevelMonitor>();
+    Object.entries(audioTracksRef.current).forEach(([userId, track]) => {
+      if (track) monitors.set(userId, createAudioLevelMonitor(track));
+    });
+
+    const lastSpokeAt = new Map<string, number>();
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      let loudestId: string | null = null;
+      let loudestLevel = SPEAKING_THRESHOLD;
+
+      monitors.forEach((monitor, userId) => {
+        const level = monitor.getLevel();
+        if (level >= SPEAKING_THRESHOLD) {
+          lastSpokeAt.set(userId, now);
+        }
+        if (level >= loudestLevel) {
+          loudestLevel = level;
+          loudestId = userId;
+        }
+      });
+
+      const speaking = Array.from(lastSpokeAt)
+        .filter(([, spokeAt]) => now - spokeAt < SPEAKING_HOLD_MS)
+        .map(([userId]) => userId)
+        .sort();
+
+      setSpeakingIds(prev => (prev.join(',') === speaking.join(',') ? prev : speaking));
+      // Keep the last speaker highlighted through short pauses
+      setActiveSpeakerId(prev => loudestId ?? (prev && speaking.includes(prev) ? prev : null));
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      monitors.forEach(monitor => monitor.stop());
+      setSpeakingIds([]);
+      setActiveSpeakerId(null);
+    };
+  }, [trackKey]);
+
+  return {
+    speakingIds,
+    activeSpeakerId
+  };
+}
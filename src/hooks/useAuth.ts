@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { encryption } from '@/lib/encryption';
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
@@ -53,6 +54,7 @@ export function useAuth() {
 
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
+    encryption.clearKeyCache();
     return { error };
   };
 
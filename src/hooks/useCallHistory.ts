@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { CallStatus } from '@/lib/calls';
+import { CallType } from '@/hooks/useWebRTC';
+
+const CALL_HISTORY_LIMIT = 50;
+
+export interface CallHistoryParticipant {
+  id: string;
+  username: string;
+  display_name: string | null;
+}
+
+export interface CallHistoryEntry {
+  id: string;
+  conversation_id: string;
+  initiator_id: string;
+  call_type: CallType;
+  status: CallStatus;
+  is_group_call: boolean;
+  started_at: string;
+  duration_seconds: number;
+  initiator?: CallHistoryParticipant;
+  // Everyone who joined the call at some point
+  participants: CallHistoryParticipant[];
+}
+
+interface UseCallHistoryOptions {
+  // Limits the history to one conversation; otherwise calls from all conversations are listed
+  conversationId?: string;
+  enabled?: boolean;
+}
+
+export function useCallHistory({ conversationId, enabled = true }: UseCallHistoryOptions = {}) {
+  const { user } = useAuth();
+  const [calls, setCalls] = useState<CallHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCalls = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      let query = supabase
+        .from('calls')
+        .select('id, conversation_id, initiator_id, call_type, status, is_group_call, started_at, duration_seconds, call_participants(user_id)')
+        .order('started_at', { ascending: false })
+        .limit(CALL_HISTORY_LIMIT);
+
+      if (conversationId) {
+        query = query.eq('conversation_id', conversationId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      // Get user profiles separately
+      const userIds = new Set<string>();
+      data.forEach(call => {
+        if (call.initiator_id) userIds.add(call.initiator_id);
+        call.call_participants.forEach(p => userIds.add(p.user_id));
+      });
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, username, display_name')
+        .in('id', Array.from(userIds));
+
+      if (profilesError) throw profilesError;
+
+      const profileById = new Map(profiles?.map(p => [p.id, p]));
+
+      setCalls(data.map(call => ({
+        id: call.id,
+        conversation_id: call.conversation_id,
+        initiator_id: call.initiator_id,
+        call_type: call.call_type === 'video' ? 'video' : 'voice',
+        status: call.status as CallStatus,
+        is_group_call: !!call.is_group_call,
+        started_at: call.started_at,
+        duration_seconds: call.duration_seconds ?? 0,
+        initiator: profileById.get(call.initiator_id),
+        participants: call.call_participants
+          .map(p => profileById.get(p.user_id))
+          .filter((p): p is CallHistoryParticipant => !!p)
+      })));
+    } catch (error) {
+      console.error('Error fetching call history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, conversationId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    setLoading(true);
+    fetchCalls();
+
+    const channel = supabase
+      .channel(`call-history-${conversationId ?? 'all'}`)
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'calls',
+          ...(conversationId ? { filter: `conversation_id=eq.${conversationId}` } : {})
+        },
+        () => fetchCalls()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, enabled, fetchCalls]);
+
+  return {
+    calls,
+    loading,
+    refetch: fetchCalls
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { CallStatsSample, RawStats, summarizeStats } from '@/lib/callStats';
+
+const STATS_INTERVAL_MS = 2000;
+
+// Polls connection stats for every peer; keyed by the remote user's id
+export function useCallStats(getPeerStats: () => Promise<Record<string, RTCStatsReport>>) {
+  const [stats, setStats] = useState<Record<string, CallStatsSample>>({});
+
+  useEffect(() => {
+    let previous: Record<string, CallStatsSample> = {};
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const reports = await getPeerStats();
+        if (cancelled) return;
+
+        const next: Record<string, CallStatsSample> = {};
+        Object.entries(reports).forEach(([userId, report]) => {
+          next[userId] = summarizeStats(report.values() as IterableIterator<RawStats>, previous[userId]);
+        });
+
+        previous = next;
+        setStats(next);
+      } catch (error) {
+        console.error('Error reading call stats:', error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, STATS_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [getPeerStats]);
+
+  return stats;
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { compareMessages, fetchMessage, fetchMessagePage } from '@/lib/messagePagination';
+
+export interface MessageSender {
+  id: string;
+  username: string;
+  status: string;
+  avatar_url?: string;
+  display_name?: string | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  // Generated by the sender so the stored row can replace its optimistic copy
+  client_id?: string | null;
+  content: string;
+  encrypted_content?: string | null;
+  encryption_key_id?: string | null;
+  sender_id: string;
+  created_at: string;
+  reply_to?: string | null;
+  message_type?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  profiles: MessageSender;
+}
+
+interface ConversationMessages {
+  messages: ChatMessage[];
+  // Whether older messages exist beyond the ones loaded
+  hasMore: boolean;
+}
+
+export const messagesQueryKey = (conversationId: string) => ['messages', conversationId];
+
+const isOptimistic = (message: ChatMessage) => message.id.startsWith('temp-');
+
+// Replaces the message with the same id, or the optimistic copy with the same client id
+function upsertMessage(messages: ChatMessage[], incoming: ChatMessage) {
+  const index = messages.findIndex(m =>
+    m.id === incoming.id || (!!incoming.client_id && m.client_id === incoming.client_id)
+  );
+
+  if (index === -1) {
+    return [...messages, incoming].sort(compareMessages);
+  }
+
+  const next = [...messages];
+  // Realtime rows come without the sender's profile
+  next[index] = { ...messages[index], ...incoming, profiles: incoming.profiles ?? messages[index].profiles };
+  return next.sort(compareMessages);
+}
+
+function updateMessages(
+  queryClient: QueryClient,
+  conversationId: string,
+  update: (messages: ChatMessage[]) => ChatMessage[]
+) {
+  queryClient.setQueryData<ConversationMessages>(messagesQueryKey(conversationId), current =>
+    current ? { ...current, messages: update(current.messages) } : current
+  );
+}
+
+// The newest page, merged into what's cached so a refetch keeps older pages and unsent messages
+async function fetchLatestMessages(queryClient: QueryClient, conversationId: string): Promise<ConversationMessages> {
+  const page = await fetchMessagePage(conversationId);
+  const cached = queryClient.getQueryData<ConversationMessages>(messagesQueryKey(conversationId));
+  const oldestFetched = page.messages[0];
+  const newestFetched = page.messages[page.messages.length - 1];
+  if (!cached || !oldestFetched) return page;
+
+  const fetchedIds = new Set(page.messages.map(m => m.id));
+  const fetchedClientIds = new Set(page.messages.map(m => m.client_id).filter(Boolean));
+
+  // Cached messages inside the fetched range but missing from it are gone from the server
+  const older = cached.messages.filter(m => !isOptimistic(m) && compareMessages(m, oldestFetched) < 0);
+  const newer = cached.messages.filter(m =>
+    !fetchedIds.has(m.id) &&
+    (isOptimistic(m) ? !fetchedClientIds.has(m.client_id) : compareMessages(m, newestFetched) > 0)
+  );
+
+  return {
+    messages: [...older, ...page.messages, ...newer],
+    hasMore: older.length > 0 ? cached.hasMore : page.hasMore
+  };
+}
+
+export function useConversationMessages(conversationId: string | null) {
+  const queryClient = useQueryClient();
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: messagesQueryKey(conversationId ?? ''),
+    queryFn: () => fetchLatestMessages(queryClient, conversationId!),
+    enabled: !!conversationId,
+    // Kept current by realtime; refetched whenever the subscription (re)connects
+    staleTime: Infinity
+  });
+
+  const applyMessage = useCallback((message: ChatMessage) => {
+    if (!conversationId) return;
+    updateMessages(queryClient, conversationId, messages => upsertMessage(messages, message));
+  }, [queryClient, conversationId]);
+
+  const removeMessage = useCallback((messageId: string) => {
+    if (!conversationId) return;
+    updateMessages(queryClient, conversationId, messages => messages.filter(m => m.id !== messageId));
+  }, [queryClient, conversationId]);
+
+  useEffect(() => {
+    setLoadingOlder(false);
+    if (!conversationId) return;
+
+    const handleInsert = async (row: ChatMessage) => {
+      const loaded = queryClient.getQueryData<ConversationMessages>(messagesQueryKey(conversationId))?.messages ?? [];
+      const profiles = loaded.find(m => m.sender_id === row.sender_id)?.profiles;
+
+      if (profiles) {
+        updateMessages(queryClient, conversationId, messages => upsertMessage(messages, { ...row, profiles }));
+        return;
+      }
+
+      // First message we've seen from this sender
+      try {
+        const message = await fetchMessage(row.id);
+        if (message) {
+          updateMessages(queryClient, conversationId, messages => upsertMessage(messages, message));
+        }
+      } catch (error) {
+        console.error('Error fetching message:', error);
+      }
+    };
+
+    const channel = supabase
+      .channel(`messages-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => handleInsert(payload.new as ChatMessage)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          // Edits and deletions for everyone change the row in place
+          const row = payload.new as ChatMessage;
+          updateMessages(queryClient, conversationId, messages =>
+            messages.some(m => m.id === row.id) ? upsertMessage(messages, row) : messages
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered, and only carry the primary key
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages'
+        },
+        (payload) => {
+          const { id } = payload.old as { id?: string };
+          if (id) {
+            updateMessages(queryClient, conversationId, messages => messages.filter(m => m.id !== id));
+          }
+        }
+      )
+      .subscribe((status) => {
+        // Catch up on anything that happened while we weren't subscribed
+        if (status === 'SUBSCRIBED') {
+          queryClient.invalidateQueries({ queryKey: messagesQueryKey(conversationId) });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, conversationId]);
+
+  // Prepends the page before the oldest loaded message; `beforePrepend` runs just before it's rendered
+  const loadOlder = useCallback(async (beforePrepend?: () => void) => {
+    if (!conversationId || !data?.hasMore || loadingOlder) return;
+
+    const oldest = data.messages.find(m => !isOptimistic(m));
+    if (!oldest) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(conversationId, oldest);
+      beforePrepend?.();
+
+      queryClient.setQueryData<ConversationMessages>(messagesQueryKey(conversationId), current => {
+        if (!current) return current;
+        const loadedIds = new Set(current.messages.map(m => m.id));
+        return {
+          messages: [...page.messages.filter(m => !loadedIds.has(m.id)), ...current.messages],
+          hasMore: page.hasMore
+        };
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [queryClient, conversationId, data, loadingOlder]);
+
+  return {
+    messages: data?.messages ?? [],
+    hasMore: data?.hasMore ?? false,
+    isLoading,
+    loadingOlder,
+    loadOlder,
+    applyMessage,
+    removeMessage
+  };
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { encryption } from '@/lib/encryption';
+import { useEncryptionStatus } from '@/hooks/useEncryption';
+
+export type DecryptionStatus = 'plaintext' | 'locked' | 'decrypting' | 'decrypted' | 'failed';
+
+interface EncryptableMessage {
+  id: string;
+  content: string;
+  encrypted_content?: string | null;
+  encryption_key_id?: string | null;
+}
+
+// Decrypted bodies keyed by message id, so re-renders and replies don't decrypt twice.
+// The ciphertext is kept alongside so an edited message isn't served its old text.
+const decryptedCache = new Map<string, { encryptedContent: string; plaintext: string }>();
+
+function getCached(messageId: string | undefined, encryptedContent?: string | null): string | undefined {
+  const entry = messageId ? decryptedCache.get(messageId) : undefined;
+  return entry && entry.encryptedContent === encryptedContent ? entry.plaintext : undefined;
+}
+
+// Locking the keys also drops everything decrypted with them
+encryption.subscribe((status) => {
+  if (status !== 'unlocked') {
+    decryptedCache.clear();
+  }
+});
+
+export function useDecryptedContent(message?: EncryptableMessage | null) {
+  const messageId = message?.id;
+  const plainContent = message?.content ?? null;
+  const encryptedContent = message?.encrypted_content;
+  const encryptionKeyId = message?.encryption_key_id;
+  const encryptionStatus = useEncryptionStatus();
+  const isEncrypted = !!(encryptedContent && encryptionKeyId);
+  const cached = getCached(messageId, encryptedContent);
+
+  const [content, setContent] = useState<string | null>(
+    isEncrypted ? cached ?? null : plainContent
+  );
+  const [status, setStatus] = useState<DecryptionStatus>(
+    !isEncrypted
+      ? 'plaintext'
+      : cached !== undefined
+        ? 'decrypted'
+        : encryptionStatus === 'unlocked' ? 'decrypting' : 'locked'
+  );
+
+  useEffect(() => {
+    if (!messageId || !encryptedContent || !encryptionKeyId) {
+      setContent(plainContent);
+      setStatus('plaintext');
+      return;
+    }
+
+    if (encryptionStatus !== 'unlocked') {
+      setContent(null);
+      setStatus('locked');
+      return;
+    }
+
+    const cachedContent = getCached(messageId, encryptedContent);
+    if (cachedContent !== undefined) {
+      setContent(cachedContent);
+      setStatus('decrypted');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('decrypting');
+
+    encryption
+      .decryptMessage(encryptedContent, encryptionKeyId)
+      .then((plaintext) => {
+        decryptedCache.set(messageId, { encryptedContent, plaintext });
+        if (!cancelled) {
+          setContent(plaintext);
+          setStatus('decrypted');
+        }
+      })
+      .catch((error) => {
+        console.error('Error decrypting message:', error);
+        if (!cancelled) {
+          setContent(null);
+          setStatus('failed');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, plainContent, encryptedContent, encryptionKeyId, encryptionStatus]);
+
+  return { content, status };
+}
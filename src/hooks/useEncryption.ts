@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { encryption, EncryptionStatus } from '@/lib/encryption';
+
+export function useEncryptionStatus(): EncryptionStatus {
+  const [status, setStatus] = useState<EncryptionStatus>(encryption.getStatus());
+
+  useEffect(() => {
+    // Pick up any change that happened between render and subscribe
+    setStatus(encryption.getStatus());
+    return encryption.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
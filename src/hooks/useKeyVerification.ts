@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { keyFingerprint } from '@/lib/fingerprint';
+
+export type VerificationStatus = 'unavailable' | 'unverified' | 'verified' | 'changed';
+
+export function useKeyVerification(contactId?: string | null) {
+  const { user } = useAuth();
+  const [ownPublicKey, setOwnPublicKey] = useState<string | null>(null);
+  const [contactPublicKey, setContactPublicKey] = useState<string | null>(null);
+  const [verifiedFingerprint, setVerifiedFingerprint] = useState<string | null>(null);
+  const [currentFingerprint, setCurrentFingerprint] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // The banner and the profile modal can watch the same contact at once
+  const instanceId = useId();
+
+  const fetchVerification = useCallback(async () => {
+    if (!user || !contactId || contactId === user.id) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('id, public_key')
+        .in('id', [user.id, contactId]);
+
+      if (error) throw error;
+
+      const contactKey = profiles?.find(p => p.id === contactId)?.public_key ?? null;
+      setOwnPublicKey(profiles?.find(p => p.id === user.id)?.public_key ?? null);
+      setContactPublicKey(contactKey);
+      setCurrentFingerprint(contactKey ? await keyFingerprint(contactKey) : null);
+
+      const { data: verification, error: verificationError } = await supabase
+        .from('key_verifications')
+        .select('contact_key_fingerprint')
+        .eq('verifier_id', user.id)
+        .eq('contact_id', contactId)
+        .maybeSingle();
+
+      if (verificationError) throw verificationError;
+
+      setVerifiedFingerprint(verification?.contact_key_fingerprint ?? null);
+    } catch (error) {
+      console.error('Error fetching key verification:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, contactId]);
+
+  useEffect(() => {
+    // Don't judge a new contact by the previous one's keys while loading
+    setOwnPublicKey(null);
+    setContactPublicKey(null);
+    setVerifiedFingerprint(null);
+    setCurrentFingerprint(null);
+    setLoading(true);
+    fetchVerification();
+
+    if (!contactId) return;
+
+    // A contact publishing a new identity key must invalidate an earlier verification
+    const channel = supabase
+      .channel(`key-verification-${contactId}-${instanceId}`)
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${contactId}` },
+        () => fetchVerification()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [contactId, instanceId, fetchVerification]);
+
+  const markVerified = async () => {
+    if (!user || !contactId || !currentFingerprint) return;
+
+    const { error } = await supabase
+      .from('key_verifications')
+      .upsert({
+        verifier_id: user.id,
+        contact_id: contactId,
+        contact_key_fingerprint: currentFingerprint,
+        verified_at: new Date().toISOString()
+      }, { onConflict: 'verifier_id,contact_id' });
+
+    if (error) throw error;
+    setVerifiedFingerprint(currentFingerprint);
+  };
+
+  const clearVerification = async () => {
+    if (!user || !contactId) return;
+
+    const { error } = await supabase
+      .from('key_verifications')
+      .delete()
+      .eq('verifier_id', user.id)
+      .eq('contact_id', contactId);
+
+    if (error) throw error;
+    setVerifiedFingerprint(null);
+  };
+
+  let status: VerificationStatus;
+  if (!ownPublicKey || !contactPublicKey) {
+    status = 'unavailable';
+  } else if (!verifiedFingerprint) {
+    status = 'unverified';
+  } else {
+    status = verifiedFingerprint === currentFingerprint ? 'verified' : 'changed';
+  }
+
+  return {
+    status,
+    loading,
+    ownPublicKey,
+    contactPublicKey,
+    markVerified,
+    clearVerification
+  };
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const updateDevices = async () => {
+      try {
+        setDevices(await navigator.mediaDevices.enumerateDevices());
+      } catch (error) {
+        console.error('Error listing media devices:', error);
+      }
+    };
+
+    updateDevices();
+
+    // Headsets and cameras can be plugged in or out mid-call
+    navigator.mediaDevices.addEventListener('devicechange', updateDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', updateDevices);
+    };
+  }, []);
+
+  return {
+    audioInputs: devices.filter(device => device.kind === 'audioinput'),
+    videoInputs: devices.filter(device => device.kind === 'videoinput'),
+    audioOutputs: devices.filter(device => device.kind === 'audiooutput')
+  };
+}
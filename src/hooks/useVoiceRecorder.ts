@@ -0,0 +1,140 @@
+import { useState, useEffect, useRef } from 'react';
+import { AudioLevelMonitor, createAudioLevelMonitor } from '@/lib/audioLevel';
+import { audioConstraints, loadCallDeviceSettings } from '@/lib/mediaDevices';
+
+export const WAVEFORM_BARS = 40;
+// Anything shorter was a tap on the button, not a message
+const MIN_VOICE_MESSAGE_MS = 500;
+const SAMPLE_INTERVAL_MS = 50;
+
+export interface VoiceRecording {
+  blob: Blob;
+  durationMs: number;
+  // WAVEFORM_BARS loudness values between 0 and 1
+  waveform: number[];
+}
+
+interface RecordingSession {
+  stream: MediaStream;
+  recorder: MediaRecorder;
+  monitor: AudioLevelMonitor;
+  interval: ReturnType<typeof setInterval>;
+  chunks: Blob[];
+  levels: number[];
+  startedAt: number;
+}
+
+function pickMimeType(): string {
+  return ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4']
+    .find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+// Peak level per bar, scaled so the loudest bar is full height
+function downsampleWaveform(levels: number[]): number[] {
+  const bars = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+    const start = Math.floor((bar * levels.length) / WAVEFORM_BARS);
+    const end = Math.max(Math.floor(((bar + 1) * levels.length) / WAVEFORM_BARS), start + 1);
+    return Math.max(0, ...levels.slice(start, end));
+  });
+  const peak = Math.max(...bars);
+
+  return bars.map(level => (peak > 0 ? Math.round((level / peak) * 100) / 100 : 0));
+}
+
+function stopSession(session: RecordingSession): Promise<Blob> {
+  clearInterval(session.interval);
+  session.monitor.stop();
+
+  return new Promise<Blob>((resolve) => {
+    session.recorder.onstop = () => {
+      session.stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(session.chunks, { type: session.recorder.mimeType || 'audio/webm' }));
+    };
+    session.recorder.stop();
+  });
+}
+
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // Set while a recording is starting or running; stop() may come before the microphone opens
+  const sessionRef = useRef<Promise<RecordingSession | null> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      session?.then(active => active && stopSession(active));
+    };
+  }, []);
+
+  const start = async () => {
+    if (sessionRef.current) return;
+
+    const starting = (async (): Promise<RecordingSession> => {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: audioConstraints(loadCallDeviceSettings())
+      });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const monitor = createAudioLevelMonitor(stream.getAudioTracks()[0]);
+      const chunks: Blob[] = [];
+      const levels: number[] = [];
+      const startedAt = Date.now();
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start();
+
+      const interval = setInterval(() => {
+        levels.push(monitor.getLevel());
+        setElapsedMs(Date.now() - startedAt);
+      }, SAMPLE_INTERVAL_MS);
+
+      return { stream, recorder, monitor, interval, chunks, levels, startedAt };
+    })();
+
+    sessionRef.current = starting.catch(() => null);
+    setElapsedMs(0);
+    setIsRecording(true);
+
+    try {
+      await starting;
+    } catch (error) {
+      sessionRef.current = null;
+      setIsRecording(false);
+      throw error;
+    }
+  };
+
+  const finish = async (keep: boolean): Promise<VoiceRecording | null> => {
+    const starting = sessionRef.current;
+    sessionRef.current = null;
+    setIsRecording(false);
+
+    const session = await starting;
+    if (!session) return null;
+
+    const blob = await stopSession(session);
+    const durationMs = Date.now() - session.startedAt;
+    if (!keep || durationMs < MIN_VOICE_MESSAGE_MS) return null;
+
+    return {
+      blob,
+      durationMs,
+      waveform: downsampleWaveform(session.levels)
+    };
+  };
+
+  return {
+    isRecording,
+    elapsedMs,
+    start,
+    // Resolves to null when the recording was too short to send
+    stop: () => finish(true),
+    cancel: () => {
+      finish(false);
+    }
+  };
+}
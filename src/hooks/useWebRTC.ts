@@ -0,0 +1,273 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+];
+
+// Every participant sends media to every other one, so bandwidth grows with the square of the call size
+export const MAX_MESH_PARTICIPANTS = 6;
+
+export type CallType = 'voice' | 'video';
+
+// Every connection negotiates one audio and one video slot up front, so tracks can be swapped in later
+const MEDIA_KINDS = ['audio', 'video'] as const;
+type MediaKind = typeof MEDIA_KINDS[number];
+
+type SignalType = 'ready' | 'offer' | 'answer' | 'ice-candidate' | 'leave';
+
+interface SignalMessage {
+  type: SignalType;
+  from: string;
+  // Omitted for messages meant for everyone in the call
+  to?: string;
+  description?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+}
+
+interface Peer {
+  connection: RTCPeerConnection;
+  remoteStream: MediaStream;
+  // ICE candidates that arrived before the remote description was set
+  pendingCandidates: RTCIceCandidateInit[];
+}
+
+interface UseWebRTCOptions {
+  callId: string;
+  userId?: string;
+  localStream: MediaStream | null;
+  // Users with an active call_participants row (left_at not set), including ourselves
+  participantIds: string[];
+}
+
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+}
+
+export function useWebRTC({ callId, userId, localStream, participantIds }: UseWebRTCOptions) {
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [connectionStates, setConnectionStates] = useState<Record<string, RTCPeerConnectionState>>({});
+  const peersRef = useRef(new Map<string, Peer>());
+  // Tracks swapped in with replaceTrack take precedence over the local stream's, e.g. a shared screen
+  const outgoingTracksRef = useRef<Partial<Record<MediaKind, MediaStreamTrack | null>>>({});
+  const participantIdsRef = useRef(participantIds);
+  const syncParticipantsRef = useRef<(() => void) | null>(null);
+  const participantKey = [...participantIds].sort().join(',');
+
+  participantIdsRef.current = participantIds;
+
+  useEffect(() => {
+    if (!userId || !localStream) return;
+
+    const peers = peersRef.current;
+    // Remote users whose signaling channel is up and who can receive an offer
+    const readyIds = new Set<string>();
+    let activeIds = new Set<string>();
+    // Signaling goes over a broadcast channel; nothing is persisted
+    const channel = supabase.channel(`call-signaling-${callId}`);
+
+    const sendSignal = (message: Omit<SignalMessage, 'from'>) => {
+      channel.send({
+        type: 'broadcast',
+        event: 'signal',
+        payload: { ...message, from: userId }
+      });
+    };
+
+    const removePeer = (remoteId: string) => {
+      const peer = peers.get(remoteId);
+      if (!peer) return;
+
+      peer.connection.close();
+      peers.delete(remoteId);
+      setRemoteStreams(prev => omitKey(prev, remoteId));
+      setConnectionStates(prev => omitKey(prev, remoteId));
+    };
+
+    const createPeer = (remoteId: string): Peer => {
+      removePeer(remoteId);
+
+      const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+      const remoteStream = new MediaStream();
+
+      connection.onicecandidate = (event) => {
+        if (event.candidate) {
+          sendSignal({ type: 'ice-candidate', to: remoteId, candidate: event.candidate.toJSON() });
+        }
+      };
+
+      connection.ontrack = (event) => {
+        remoteStream.addTrack(event.track);
+        setRemoteStreams(prev => ({ ...prev, [remoteId]: remoteStream }));
+      };
+
+      connection.onconnectionstatechange = () => {
+        setConnectionStates(prev => ({ ...prev, [remoteId]: connection.connectionState }));
+      };
+
+      const peer = { connection, remoteStream, pendingCandidates: [] };
+      peers.set(remoteId, peer);
+      return peer;
+    };
+
+    const applyRemoteDescription = async (peer: Peer, description: RTCSessionDescriptionInit) => {
+      await peer.connection.setRemoteDescription(description);
+      for (const candidate of peer.pendingCandidates) {
+        await peer.connection.addIceCandidate(candidate);
+      }
+      peer.pendingCandidates = [];
+    };
+
+    // The participant with the lower user id always makes the offer, so offers never collide
+    const isOfferer = (remoteId: string) => userId < remoteId;
+
+    const localTrack = (kind: MediaKind) => {
+      const outgoingTracks = outgoingTracksRef.current;
+      if (kind in outgoingTracks) return outgoingTracks[kind] ?? null;
+      return (kind === 'audio' ? localStream.getAudioTracks() : localStream.getVideoTracks())[0] ?? null;
+    };
+
+    const sendOffer = async (remoteId: string) => {
+      const peer = createPeer(remoteId);
+      MEDIA_KINDS.forEach(kind => {
+        peer.connection.addTransceiver(localTrack(kind) ?? kind, { direction: 'sendrecv' });
+      });
+      const offer = await peer.connection.createOffer();
+      await peer.connection.setLocalDescription(offer);
+      sendSignal({ type: 'offer', to: remoteId, description: offer });
+    };
+
+    // Connect to participants as their rows appear and drop them once they've left
+    const syncParticipants = () => {
+      const currentIds = new Set(participantIdsRef.current.filter(id => id !== userId));
+
+      activeIds.forEach(id => {
+        if (!currentIds.has(id)) {
+          readyIds.delete(id);
+          removePeer(id);
+        }
+      });
+      activeIds = currentIds;
+
+      currentIds.forEach(id => {
+        if (isOfferer(id) && readyIds.has(id) && !peers.has(id)) {
+          sendOffer(id).catch((error) => console.error('Error creating call offer:', error));
+        }
+      });
+    };
+
+    const handleSignal = async (message: SignalMessage) => {
+      if (message.from === userId || (message.to && message.to !== userId)) return;
+
+      const remoteId = message.from;
+      switch (message.type) {
+        case 'ready': {
+          if (isOfferer(remoteId)) {
+            readyIds.add(remoteId);
+            // A repeated ready means the other side restarted; sendOffer replaces the old connection
+            if (activeIds.has(remoteId)) {
+              await sendOffer(remoteId);
+            }
+          } else if (!message.to) {
+            // Let the newcomer know we're here so it can send us an offer
+            sendSignal({ type: 'ready', to: remoteId });
+          }
+          break;
+        }
+        case 'offer': {
+          if (!message.description) return;
+          const peer = createPeer(remoteId);
+          await applyRemoteDescription(peer, message.description);
+          // Send our media on the slots the offer created
+          for (const transceiver of peer.connection.getTransceivers()) {
+            const kind = transceiver.receiver.track.kind as MediaKind;
+            transceiver.direction = 'sendrecv';
+            await transceiver.sender.replaceTrack(localTrack(kind));
+          }
+          const answer = await peer.connection.createAnswer();
+          await peer.connection.setLocalDescription(answer);
+          sendSignal({ type: 'answer', to: remoteId, description: answer });
+          break;
+        }
+        case 'answer': {
+          const peer = peers.get(remoteId);
+          if (!peer || !message.description) return;
+          await applyRemoteDescription(peer, message.description);
+          break;
+        }
+        case 'ice-candidate': {
+          const peer = peers.get(remoteId);
+          if (!peer || !message.candidate) return;
+          if (peer.connection.remoteDescription) {
+            await peer.connection.addIceCandidate(message.candidate);
+          } else {
+            peer.pendingCandidates.push(message.candidate);
+          }
+          break;
+        }
+        case 'leave':
+          readyIds.delete(remoteId);
+          removePeer(remoteId);
+          break;
+      }
+    };
+
+    channel
+      .on('broadcast', { event: 'signal' }, ({ payload }) => {
+        handleSignal(payload as SignalMessage).catch((error) => {
+          console.error('Error handling call signal:', error);
+        });
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          sendSignal({ type: 'ready' });
+        }
+      });
+
+    syncParticipantsRef.current = syncParticipants;
+    syncParticipants();
+
+    return () => {
+      syncParticipantsRef.current = null;
+      sendSignal({ type: 'leave' });
+      peers.forEach(peer => peer.connection.close());
+      peers.clear();
+      supabase.removeChannel(channel);
+      setRemoteStreams({});
+      setConnectionStates({});
+    };
+  }, [callId, userId, localStream]);
+
+  useEffect(() => {
+    syncParticipantsRef.current?.();
+  }, [participantKey]);
+
+  // Swap the track we send to everyone without renegotiating, e.g. when the camera is turned on
+  const replaceTrack = useCallback(async (kind: MediaKind, track: MediaStreamTrack | null) => {
+    outgoingTracksRef.current[kind] = track;
+    const senders = Array.from(peersRef.current.values()).flatMap(peer =>
+      peer.connection.getTransceivers()
+        .filter(transceiver => transceiver.receiver.track.kind === kind)
+        .map(transceiver => transceiver.sender)
+    );
+    await Promise.all(senders.map(sender => sender.replaceTrack(track)));
+  }, []);
+
+  const getPeerStats = useCallback(async () => {
+    const entries = await Promise.all(
+      Array.from(peersRef.current.entries()).map(async ([remoteId, peer]) =>
+        [remoteId, await peer.connection.getStats()] as const
+      )
+    );
+    return Object.fromEntries(entries) as Record<string, RTCStatsReport>;
+  }, []);
+
+  return {
+    remoteStreams,
+    connectionStates,
+    replaceTrack,
+    getPeerStats
+  };
+}
@@ -19,6 +19,8 @@ export type Database = {
           call_id: string
           id: string
           is_muted: boolean | null
+          is_recording: boolean
+          is_screen_sharing: boolean
           is_video_enabled: boolean | null
           joined_at: string | null
           left_at: string | null
@@ -28,6 +30,8 @@ export type Database = {
           call_id: string
           id?: string
           is_muted?: boolean | null
+          is_recording?: boolean
+          is_screen_sharing?: boolean
           is_video_enabled?: boolean | null
           joined_at?: string | null
           left_at?: string | null
@@ -37,6 +41,8 @@ export type Database = {
           call_id?: string
           id?: string
           is_muted?: boolean | null
+          is_recording?: boolean
+          is_screen_sharing?: boolean
           is_video_enabled?: boolean | null
           joined_at?: string | null
           left_at?: string | null
@@ -54,6 +60,7 @@ export type Database = {
       }
       calls: {
         Row: {
+          answered_at: string | null
           call_data: Json | null
           call_type: string | null
           conversation_id: string | null
@@ -66,6 +73,7 @@ export type Database = {
           status: string | null
         }
         Insert: {
+          answered_at?: string | null
           call_data?: Json | null
           call_type?: string | null
           conversation_id?: string | null
@@ -78,6 +86,7 @@ export type Database = {
           status?: string | null
         }
         Update: {
+          answered_at?: string | null
           call_data?: Json | null
           call_type?: string | null
           conversation_id?: string | null
@@ -106,23 +115,120 @@ export type Database = {
           },
         ]
       }
+      conversation_key_versions: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          created_by: string
+          key_id: string
+          key_version: number
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          key_id: string
+          key_version: number
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          key_id?: string
+          key_version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_key_versions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_key_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_keys: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          created_by: string
+          id: string
+          key_id: string
+          key_version: number
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          key_id: string
+          key_version?: number
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          key_id?: string
+          key_version?: number
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_keys_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_keys_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversation_participants: {
         Row: {
           conversation_id: string | null
           id: string
           joined_at: string | null
+          last_read_at: string
           user_id: string | null
         }
         Insert: {
           conversation_id?: string | null
           id?: string
           joined_at?: string | null
+          last_read_at?: string
           user_id?: string | null
         }
         Update: {
           conversation_id?: string | null
           id?: string
           joined_at?: string | null
+          last_read_at?: string
           user_id?: string | null
         }
         Relationships: [
@@ -146,9 +252,11 @@ export type Database = {
         Row: {
           created_at: string | null
           created_by: string | null
+          delete_window_minutes: number | null
           group_description: string | null
           group_name: string | null
           id: string
+          key_version: number
           name: string | null
           type: string | null
           updated_at: string | null
@@ -156,9 +264,11 @@ export type Database = {
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          delete_window_minutes?: number | null
           group_description?: string | null
           group_name?: string | null
           id?: string
+          key_version?: number
           name?: string | null
           type?: string | null
           updated_at?: string | null
@@ -166,9 +276,11 @@ export type Database = {
         Update: {
           created_at?: string | null
           created_by?: string | null
+          delete_window_minutes?: number | null
           group_description?: string | null
           group_name?: string | null
           id?: string
+          key_version?: number
           name?: string | null
           type?: string | null
           updated_at?: string | null
@@ -213,6 +325,83 @@ export type Database = {
         }
         Relationships: []
       }
+      key_verifications: {
+        Row: {
+          contact_id: string
+          contact_key_fingerprint: string
+          id: string
+          verified_at: string
+          verifier_id: string
+        }
+        Insert: {
+          contact_id: string
+          contact_key_fingerprint: string
+          id?: string
+          verified_at?: string
+          verifier_id: string
+        }
+        Update: {
+          contact_id?: string
+          contact_key_fingerprint?: string
+          id?: string
+          verified_at?: string
+          verifier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "key_verifications_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "key_verifications_verifier_id_fkey"
+            columns: ["verifier_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          content: string
+          edited_at: string
+          encrypted_content: string | null
+          encryption_key_id: string | null
+          id: string
+          key_version: number | null
+          message_id: string
+        }
+        Insert: {
+          content: string
+          edited_at?: string
+          encrypted_content?: string | null
+          encryption_key_id?: string | null
+          id?: string
+          key_version?: number | null
+          message_id: string
+        }
+        Update: {
+          content?: string
+          edited_at?: string
+          encrypted_content?: string | null
+          encryption_key_id?: string | null
+          id?: string
+          key_version?: number | null
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_reactions: {
         Row: {
           created_at: string
@@ -247,37 +436,46 @@ export type Database = {
       }
       messages: {
         Row: {
+          client_id: string | null
           content: string
           conversation_id: string | null
           created_at: string | null
+          deleted_at: string | null
           edited_at: string | null
           encrypted_content: string | null
           encryption_key_id: string | null
           id: string
+          key_version: number | null
           message_type: string | null
           reply_to: string | null
           sender_id: string | null
         }
         Insert: {
+          client_id?: string | null
           content: string
           conversation_id?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           edited_at?: string | null
           encrypted_content?: string | null
           encryption_key_id?: string | null
           id?: string
+          key_version?: number | null
           message_type?: string | null
           reply_to?: string | null
           sender_id?: string | null
         }
         Update: {
+          client_id?: string | null
           content?: string
           conversation_id?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           edited_at?: string | null
           encrypted_content?: string | null
           encryption_key_id?: string | null
           id?: string
+          key_version?: number | null
           message_type?: string | null
           reply_to?: string | null
           sender_id?: string | null
@@ -315,6 +513,7 @@ export type Database = {
           id: string
           is_typing: boolean | null
           last_seen: string | null
+          public_key: string | null
           status: string | null
           typing_conversation_id: string | null
           updated_at: string | null
@@ -328,6 +527,7 @@ export type Database = {
           id: string
           is_typing?: boolean | null
           last_seen?: string | null
+          public_key?: string | null
           status?: string | null
           typing_conversation_id?: string | null
           updated_at?: string | null
@@ -341,6 +541,7 @@ export type Database = {
           id?: string
           is_typing?: boolean | null
           last_seen?: string | null
+          public_key?: string | null
           status?: string | null
           typing_conversation_id?: string | null
           updated_at?: string | null
@@ -377,6 +578,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      answer_call: {
+        Args: { call_id_param: string }
+        Returns: string
+      }
+      attachment_conversation_id: {
+        Args: { object_name: string }
+        Returns: string
+      }
       block_user: {
         Args: { user_id_to_block: string }
         Returns: boolean
@@ -389,14 +598,56 @@ export type Database = {
         Args: { group_name_param: string; friend_ids: string[] }
         Returns: string
       }
+      decline_call: {
+        Args: { call_id_param: string }
+        Returns: boolean
+      }
       delete_group_conversation: {
         Args: { conversation_id_param: string }
         Returns: boolean
       }
+      delete_message_for_everyone: {
+        Args: { message_id_param: string }
+        Returns: undefined
+      }
+      expire_stale_calls: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      expire_unanswered_call: {
+        Args: { call_id_param: string }
+        Returns: boolean
+      }
+      get_conversation_list: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          name: string | null
+          type: string | null
+          created_by: string | null
+          delete_window_minutes: number | null
+          participants: Json
+          last_message: Json | null
+          last_activity_at: string
+          unread_count: number
+        }[]
+      }
       kick_group_member: {
         Args: { conversation_id_param: string; member_id_param: string }
         Returns: boolean
       }
+      leave_call: {
+        Args: { call_id_param: string }
+        Returns: boolean
+      }
+      mark_call_ringing: {
+        Args: { call_id_param: string }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: { conversation_id_param: string }
+        Returns: undefined
+      }
       remove_friend: {
         Args: { friend_id: string }
         Returns: boolean
@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FileEncryptionKey, decryptFile, encryptFile } from '@/lib/fileEncryption';
+
+// Files live in Storage as ciphertext; the message body (encrypted like any other
+// message) describes them and carries the key to decrypt them
+
+export const ATTACHMENT_BUCKET = 'attachments';
+// The bucket allows a little more, for the encryption overhead
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+export type AttachmentMessageType = 'image' | 'file' | 'voice';
+
+export interface Attachment {
+  path: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  // Missing on attachments uploaded before files were encrypted
+  encryption?: FileEncryptionKey;
+  // Voice messages only; recorded clips often don't report their own duration
+  durationMs?: number;
+  waveform?: number[];
+}
+
+function parseFileKey(value: unknown): FileEncryptionKey | undefined {
+  const fileKey = value as Partial<FileEncryptionKey> | null | undefined;
+  if (
+    typeof fileKey?.key !== 'string' ||
+    typeof fileKey?.nonce !== 'string' ||
+    typeof fileKey?.chunkSize !== 'number'
+  ) {
+    return undefined;
+  }
+
+  return { key: fileKey.key, nonce: fileKey.nonce, chunkSize: fileKey.chunkSize };
+}
+
+export function attachmentMessageType(mimeType: string): AttachmentMessageType {
+  return mimeType.startsWith('image/') ? 'image' : 'file';
+}
+
+export function isAttachmentMessage(messageType?: string | null): messageType is AttachmentMessageType {
+  return messageType === 'image' || messageType === 'file' || messageType === 'voice';
+}
+
+export function serializeAttachment(attachment: Attachment): string {
+  return JSON.stringify(attachment);
+}
+
+export function parseAttachment(content?: string | null): Attachment | null {
+  if (!content) return null;
+
+  try {
+    const parsed = JSON.parse(content);
+    if (typeof parsed?.path !== 'string' || typeof parsed?.name !== 'string') return null;
+
+    return {
+      path: parsed.path,
+      name: parsed.name,
+      size: typeof parsed.size === 'number' ? parsed.size : 0,
+      mimeType: typeof parsed.mimeType === 'string' ? parsed.mimeType : 'application/octet-stream',
+      encryption: parseFileKey(parsed.encryption),
+      durationMs: typeof parsed.durationMs === 'number' ? parsed.durationMs : undefined,
+      waveform: Array.isArray(parsed.waveform)
+        ? parsed.waveform.filter((level: unknown): level is number => typeof level === 'number')
+        : undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+// One-line stand-in for a message body, used in reply previews
+export function messagePreviewText(messageType?: string | null, content?: string | null): string {
+  if (!isAttachmentMessage(messageType)) return content ?? '';
+
+  const attachment = parseAttachment(content);
+  if (messageType === 'image') return 'Photo';
+  if (messageType === 'voice') return 'Voice message';
+  return attachment ? `File: ${attachment.name}` : 'File';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function uploadAttachment(conversationId: string, userId: string, file: File): Promise<Attachment> {
+  // The name and type only go in the encrypted message, never in Storage
+  const path = `${conversationId}/${userId}/${crypto.randomUUID()}`;
+  const { encrypted, fileKey } = await encryptFile(file);
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, encrypted, { contentType: 'application/octet-stream' });
+
+  if (error) throw error;
+
+  return {
+    path,
+    name: file.name,
+    size: file.size,
+    mimeType: file.type || 'application/octet-stream',
+    encryption: fileKey
+  };
+}
+
+export async function downloadAttachment(attachment: Attachment): Promise<Blob> {
+  if (!attachment.encryption) {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .download(attachment.path);
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Fetched as a stream so each chunk is decrypted as soon as it arrives
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment.path, 60);
+
+  if (error) throw error;
+
+  const response = await fetch(data.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Attachment download failed with status ${response.status}`);
+  }
+
+  return decryptFile(response.body, attachment.encryption, attachment.mimeType);
+}
+
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
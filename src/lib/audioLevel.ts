@@ -0,0 +1,38 @@
+// Live loudness of an audio track, for level meters and speaker detection
+
+export interface AudioLevelMonitor {
+  // Current level between 0 (silence) and 1 (full scale)
+  getLevel: () => number;
+  stop: () => void;
+}
+
+// Speech rarely goes above this RMS level, so scale it up to use the whole 0-1 range
+const LEVEL_GAIN = 4;
+
+export function createAudioLevelMonitor(track: MediaStreamTrack): AudioLevelMonitor {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(new MediaStream([track]));
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+
+      let sumOfSquares = 0;
+      for (const sample of samples) {
+        sumOfSquares += sample * sample;
+      }
+      const rms = Math.sqrt(sumOfSquares / samples.length);
+
+      return Math.min(rms * LEVEL_GAIN, 1);
+    },
+    stop: () => {
+      source.disconnect();
+      context.close().catch(() => {});
+    }
+  };
+}
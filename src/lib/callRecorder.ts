@@ -0,0 +1,152 @@
+// Records a call locally: everyone's audio mixed into one track, and optionally
+// everyone's video drawn side by side on a canvas.
+
+export interface RecordingSource {
+  audioTrack?: MediaStreamTrack | null;
+  videoTrack?: MediaStreamTrack | null;
+}
+
+export interface CallRecording {
+  // Call whenever participants or their tracks change
+  update: (sources: RecordingSource[]) => void;
+  stop: () => Promise<Blob>;
+}
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const VIDEO_FPS = 15;
+
+function pickMimeType(includeVideo: boolean): string {
+  const candidates = includeVideo
+    ? ['video/webm;codecs=vp8,opus', 'video/webm']
+    : ['audio/webm;codecs=opus', 'audio/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+// Scale to fit the cell while keeping the aspect ratio
+function drawFitted(context: CanvasRenderingContext2D, video: HTMLVideoElement, x: number, y: number, width: number, height: number) {
+  if (!video.videoWidth || !video.videoHeight) return;
+
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  context.drawImage(video, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+export function startCallRecording(sources: RecordingSource[], { includeVideo }: { includeVideo: boolean }): CallRecording {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const audioNodes = new Map<string, MediaStreamAudioSourceNode>();
+
+  const videos = new Map<string, HTMLVideoElement>();
+  const canvas = includeVideo ? document.createElement('canvas') : null;
+  const canvasContext = canvas?.getContext('2d') ?? null;
+  let drawInterval: ReturnType<typeof setInterval> | null = null;
+
+  if (canvas && canvasContext) {
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+
+    // A timer rather than animation frames, which stop while the tab is in the background
+    drawInterval = setInterval(() => {
+      canvasContext.fillStyle = '#000';
+      canvasContext.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      const elements = Array.from(videos.values());
+      if (elements.length === 0) return;
+
+      const columns = Math.ceil(Math.sqrt(elements.length));
+      const rows = Math.ceil(elements.length / columns);
+      const cellWidth = CANVAS_WIDTH / columns;
+      const cellHeight = CANVAS_HEIGHT / rows;
+
+      elements.forEach((video, index) => {
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        drawFitted(canvasContext, video, column * cellWidth, row * cellHeight, cellWidth, cellHeight);
+      });
+    }, 1000 / VIDEO_FPS);
+  }
+
+  const update = (nextSources: RecordingSource[]) => {
+    const audioTracks = new Map<string, MediaStreamTrack>();
+    const videoTracks = new Map<string, MediaStreamTrack>();
+    nextSources.forEach(({ audioTrack, videoTrack }) => {
+      if (audioTrack) audioTracks.set(audioTrack.id, audioTrack);
+      if (videoTrack) videoTracks.set(videoTrack.id, videoTrack);
+    });
+
+    audioNodes.forEach((node, trackId) => {
+      if (!audioTracks.has(trackId)) {
+        node.disconnect();
+        audioNodes.delete(trackId);
+      }
+    });
+    audioTracks.forEach((track, trackId) => {
+      if (audioNodes.has(trackId)) return;
+      const node = audioContext.createMediaStreamSource(new MediaStream([track]));
+      node.connect(destination);
+      audioNodes.set(trackId, node);
+    });
+
+    if (!canvas) return;
+
+    videos.forEach((video, trackId) => {
+      if (!videoTracks.has(trackId)) {
+        video.srcObject = null;
+        videos.delete(trackId);
+      }
+    });
+    videoTracks.forEach((track, trackId) => {
+      if (videos.has(trackId)) return;
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = new MediaStream([track]);
+      video.play().catch((error) => console.error('Error playing video for recording:', error));
+      videos.set(trackId, video);
+    });
+  };
+
+  update(sources);
+
+  const recordedStream = new MediaStream([
+    ...destination.stream.getAudioTracks(),
+    ...(canvas ? canvas.captureStream(VIDEO_FPS).getVideoTracks() : [])
+  ]);
+  const mimeType = pickMimeType(includeVideo);
+  const recorder = new MediaRecorder(recordedStream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  // Emit data every second so a crash mid-call loses as little as possible
+  recorder.start(1000);
+
+  const cleanup = () => {
+    if (drawInterval) clearInterval(drawInterval);
+    recordedStream.getTracks().forEach(track => track.stop());
+    audioNodes.forEach(node => node.disconnect());
+    videos.forEach(video => {
+      video.srcObject = null;
+    });
+    audioContext.close().catch(() => {});
+  };
+
+  const stop = () => new Promise<Blob>((resolve) => {
+    if (recorder.state === 'inactive') {
+      cleanup();
+      resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+      return;
+    }
+
+    recorder.onstop = () => {
+      cleanup();
+      resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+    };
+    recorder.stop();
+  });
+
+  return { update, stop };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { CallStatsSample, RawStats, rateCallQuality, summarizeStats } from './callStats';
+import chromeGood from './__fixtures__/getStats/chrome-good.json';
+import chromeNoTransport from './__fixtures__/getStats/chrome-no-transport.json';
+import firefoxPoor from './__fixtures__/getStats/firefox-poor.json';
+import connecting from './__fixtures__/getStats/connecting.json';
+
+// Recorded with JSON.stringify([...(await pc.getStats()).values()])
+const reports = (fixture: unknown) => fixture as RawStats[];
+
+const sample = (overrides: Partial<CallStatsSample>): CallStatsSample => ({
+  timestamp: 0,
+  bytesReceived: 0,
+  bytesSent: 0,
+  packetsReceived: 0,
+  packetsLost: 0,
+  ...overrides
+});
+
+describe('summarizeStats', () => {
+  it('reads RTT from the transport\'s selected candidate pair in Chrome', () => {
+    const summary = summarizeStats(reports(chromeGood));
+
+    expect(summary.rttMs).toBeCloseTo(45);
+    expect(summary.jitterMs).toBeCloseTo(9);
+    expect(summary.packetLossPercent).toBeCloseTo(4 / 2700 * 100);
+    expect(summary.audioCodec).toBe('opus');
+    expect(summary.videoCodec).toBe('VP8');
+    expect(summary.timestamp).toBe(1723200000000.123);
+  });
+
+  it('falls back to remote-inbound-rtp RTT without transport or candidate pairs', () => {
+    const summary = summarizeStats(reports(chromeNoTransport));
+
+    expect(summary.rttMs).toBeCloseTo(264);
+    expect(summary.jitterMs).toBeCloseTo(41);
+    expect(summary.packetLossPercent).toBeCloseTo(1.4);
+  });
+
+  it('uses the nominated pair in Firefox, which has no transport stats', () => {
+    const summary = summarizeStats(reports(firefoxPoor));
+
+    // Firefox's pair has no currentRoundTripTime, so the remote report provides it
+    expect(summary.rttMs).toBeCloseTo(452);
+    expect(summary.jitterMs).toBeCloseTo(62);
+    expect(summary.packetLossPercent).toBeCloseTo(79 / 1000 * 100);
+    expect(summary.videoCodec).toBe('H264');
+  });
+
+  it('leaves RTT, jitter and loss unset before media flows', () => {
+    const summary = summarizeStats(reports(connecting));
+
+    expect(summary.rttMs).toBeUndefined();
+    expect(summary.jitterMs).toBeUndefined();
+    expect(summary.packetLossPercent).toBeUndefined();
+  });
+
+  it('computes loss and bitrates over the interval since the previous sample', () => {
+    const previous = sample({
+      timestamp: 1723199998000.123,
+      bytesReceived: 1567230,
+      bytesSent: 1459512,
+      packetsReceived: 2400,
+      packetsLost: 0
+    });
+    const summary = summarizeStats(reports(chromeGood), previous);
+
+    expect(summary.packetLossPercent).toBeCloseTo(4 / 300 * 100);
+    expect(summary.inboundKbps).toBeCloseTo(250000 * 8 / 2 / 1000);
+    expect(summary.outboundKbps).toBeCloseTo(249000 * 8 / 2 / 1000);
+  });
+});
+
+describe('rateCallQuality', () => {
+  it('rates recorded reports', () => {
+    expect(rateCallQuality(summarizeStats(reports(chromeGood)))).toBe('good');
+    expect(rateCallQuality(summarizeStats(reports(chromeNoTransport)))).toBe('fair');
+    expect(rateCallQuality(summarizeStats(reports(firefoxPoor)))).toBe('poor');
+    expect(rateCallQuality(summarizeStats(reports(connecting)))).toBe('unknown');
+  });
+
+  it('is unknown without a sample or with neither RTT nor loss', () => {
+    expect(rateCallQuality(undefined)).toBe('unknown');
+    expect(rateCallQuality(sample({ jitterMs: 80 }))).toBe('unknown');
+  });
+
+  it('treats the RTT limits as inclusive', () => {
+    expect(rateCallQuality(sample({ rttMs: 200 }))).toBe('good');
+    expect(rateCallQuality(sample({ rttMs: 200.1 }))).toBe('fair');
+    expect(rateCallQuality(sample({ rttMs: 400 }))).toBe('fair');
+    expect(rateCallQuality(sample({ rttMs: 400.1 }))).toBe('poor');
+  });
+
+  it('treats the packet loss limits as inclusive', () => {
+    expect(rateCallQuality(sample({ packetLossPercent: 2 }))).toBe('good');
+    expect(rateCallQuality(sample({ packetLossPercent: 2.1 }))).toBe('fair');
+    expect(rateCallQuality(sample({ packetLossPercent: 5 }))).toBe('fair');
+    expect(rateCallQuality(sample({ packetLossPercent: 5.1 }))).toBe('poor');
+  });
+
+  it('treats the jitter limits as inclusive', () => {
+    expect(rateCallQuality(sample({ rttMs: 50, jitterMs: 30 }))).toBe('good');
+    expect(rateCallQuality(sample({ rttMs: 50, jitterMs: 30.1 }))).toBe('fair');
+    expect(rateCallQuality(sample({ rttMs: 50, jitterMs: 50 }))).toBe('fair');
+    expect(rateCallQuality(sample({ rttMs: 50, jitterMs: 50.1 }))).toBe('poor');
+  });
+
+  it('lands exactly on the limits when computed from reports', () => {
+    const atLimits = (rtt: number, jitter: number, lost: number): RawStats[] => [
+      { id: 'RI', type: 'remote-inbound-rtp', timestamp: 1, roundTripTime: rtt },
+      { id: 'IA', type: 'inbound-rtp', timestamp: 1, kind: 'audio', jitter, packetsLost: lost, packetsReceived: 100 - lost }
+    ];
+
+    expect(rateCallQuality(summarizeStats(atLimits(0.2, 0.03, 2)))).toBe('good');
+    expect(rateCallQuality(summarizeStats(atLimits(0.4, 0.05, 5)))).toBe('fair');
+  });
+
+  it('takes the worst of the three measurements', () => {
+    expect(rateCallQuality(sample({ rttMs: 20, packetLossPercent: 0, jitterMs: 60 }))).toBe('poor');
+    expect(rateCallQuality(sample({ rttMs: 250, packetLossPercent: 0, jitterMs: 5 }))).toBe('fair');
+  });
+});
@@ -0,0 +1,131 @@
+// Call quality numbers derived from RTCPeerConnection.getStats() reports.
+// Everything here is pure so it can be run against recorded reports.
+
+export type CallQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+// The subset of RTCStats fields we read; real reports carry many more
+export interface RawStats {
+  id: string;
+  type: string;
+  timestamp: number;
+  kind?: string;
+  state?: string;
+  nominated?: boolean;
+  selectedCandidatePairId?: string;
+  currentRoundTripTime?: number;
+  roundTripTime?: number;
+  jitter?: number;
+  packetsLost?: number;
+  packetsReceived?: number;
+  bytesReceived?: number;
+  bytesSent?: number;
+  codecId?: string;
+  mimeType?: string;
+}
+
+export interface CallStatsSample {
+  timestamp: number;
+  // Cumulative counters, kept to compute rates against the next sample
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+  rttMs?: number;
+  jitterMs?: number;
+  packetLossPercent?: number;
+  inboundKbps?: number;
+  outboundKbps?: number;
+  audioCodec?: string;
+  videoCodec?: string;
+}
+
+function codecName(stats: Map<string, RawStats>, codecId?: string): string | undefined {
+  const mimeType = codecId ? stats.get(codecId)?.mimeType : undefined;
+  // "audio/opus" -> "opus"
+  return mimeType?.split('/')[1];
+}
+
+function selectedCandidatePair(stats: Map<string, RawStats>): RawStats | undefined {
+  for (const report of stats.values()) {
+    if (report.type === 'transport' && report.selectedCandidatePairId) {
+      return stats.get(report.selectedCandidatePairId);
+    }
+  }
+  // Firefox has no transport stats; fall back to the nominated, working pair
+  for (const report of stats.values()) {
+    if (report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+      return report;
+    }
+  }
+  return undefined;
+}
+
+export function summarizeStats(reports: Iterable<RawStats>, previous?: CallStatsSample): CallStatsSample {
+  const stats = new Map<string, RawStats>();
+  for (const report of reports) {
+    stats.set(report.id, report);
+  }
+
+  const sample: CallStatsSample = {
+    timestamp: 0,
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0
+  };
+  const jitters: number[] = [];
+  const remoteRtts: number[] = [];
+
+  for (const report of stats.values()) {
+    sample.timestamp = Math.max(sample.timestamp, report.timestamp);
+
+    if (report.type === 'inbound-rtp') {
+      sample.bytesReceived += report.bytesReceived ?? 0;
+      sample.packetsReceived += report.packetsReceived ?? 0;
+      sample.packetsLost += Math.max(report.packetsLost ?? 0, 0);
+      if (report.jitter !== undefined) jitters.push(report.jitter);
+
+      const codec = codecName(stats, report.codecId);
+      if (report.kind === 'audio' && codec) sample.audioCodec = codec;
+      if (report.kind === 'video' && codec) sample.videoCodec = codec;
+    } else if (report.type === 'outbound-rtp') {
+      sample.bytesSent += report.bytesSent ?? 0;
+    } else if (report.type === 'remote-inbound-rtp' && report.roundTripTime !== undefined) {
+      remoteRtts.push(report.roundTripTime);
+    }
+  }
+
+  const rtt = selectedCandidatePair(stats)?.currentRoundTripTime
+    ?? (remoteRtts.length > 0 ? Math.max(...remoteRtts) : undefined);
+  if (rtt !== undefined) sample.rttMs = rtt * 1000;
+  if (jitters.length > 0) sample.jitterMs = Math.max(...jitters) * 1000;
+
+  // Rates cover the interval since the previous sample; loss falls back to the whole call
+  const packetsReceived = sample.packetsReceived - (previous?.packetsReceived ?? 0);
+  const packetsLost = sample.packetsLost - (previous?.packetsLost ?? 0);
+  if (packetsReceived + packetsLost > 0) {
+    sample.packetLossPercent = (Math.max(packetsLost, 0) / (packetsReceived + Math.max(packetsLost, 0))) * 100;
+  }
+
+  const elapsedSeconds = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+  if (previous && elapsedSeconds > 0) {
+    sample.inboundKbps = Math.max(sample.bytesReceived - previous.bytesReceived, 0) * 8 / elapsedSeconds / 1000;
+    sample.outboundKbps = Math.max(sample.bytesSent - previous.bytesSent, 0) * 8 / elapsedSeconds / 1000;
+  }
+
+  return sample;
+}
+
+export function rateCallQuality(sample?: CallStatsSample): CallQuality {
+  if (!sample || (sample.rttMs === undefined && sample.packetLossPercent === undefined)) {
+    return 'unknown';
+  }
+
+  const rtt = sample.rttMs ?? 0;
+  const loss = sample.packetLossPercent ?? 0;
+  const jitter = sample.jitterMs ?? 0;
+
+  if (rtt > 400 || loss > 5 || jitter > 50) return 'poor';
+  if (rtt > 200 || loss > 2 || jitter > 30) return 'fair';
+  return 'good';
+}
@@ -0,0 +1,29 @@
+export type CallStatus = 'pending' | 'ringing' | 'active' | 'ended' | 'missed' | 'declined';
+
+// Matches the interval used by expire_unanswered_call and the server-side expire_stale_calls sweep
+export const CALL_RING_TIMEOUT_MS = 45_000;
+
+export function isCallFinished(status?: string | null): boolean {
+  return status === 'ended' || status === 'missed' || status === 'declined';
+}
+
+// SQLSTATE raised by the call_participants trigger that caps how many people can be in a call
+const CALL_FULL_ERROR_CODE = 'CF001';
+
+export function isCallFullError(error?: { code?: string } | null): boolean {
+  return error?.code === CALL_FULL_ERROR_CODE;
+}
+
+export function isCallRinging(status?: string | null): boolean {
+  return status === 'pending' || status === 'ringing';
+}
+
+export function formatCallDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
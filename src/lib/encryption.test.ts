@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+const { tables, records } = vi.hoisted(() => ({
+  tables: {} as Record<string, Row[]>,
+  records: new Map<string, unknown>()
+}));
+
+// Just enough of the query builder for the queries encryption.ts makes
+class FakeQuery implements PromiseLike<{ data: unknown; error: unknown }> {
+  private filters: [string, unknown][] = [];
+  private run: (rows: Row[]) => { data: unknown; error: unknown } = rows => ({ data: rows, error: null });
+
+  constructor(private table: string) {}
+
+  select() {
+    if (this.table === 'conversation_participants') {
+      // profiles!inner(id, public_key)
+      this.run = rows => ({
+        data: rows.map(row => ({ profiles: tables.profiles.find(p => p.id === row.user_id) })),
+        error: null
+      });
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  update(values: Row) {
+    this.run = rows => {
+      rows.forEach(row => {
+        const previousKey = row.public_key;
+        Object.assign(row, values);
+        // Mirrors the bump_key_versions_on_identity_change trigger
+        if (this.table === 'profiles' && previousKey && previousKey !== row.public_key) {
+          tables.conversation_participants
+            .filter(p => p.user_id === row.id)
+            .forEach(p => {
+              const conversation = tables.conversations.find(c => c.id === p.conversation_id)!;
+              conversation.key_version = (conversation.key_version as number) + 1;
+            });
+        }
+      });
+      return { data: null, error: null };
+    };
+    return this;
+  }
+
+  insert(row: Row) {
+    this.run = () => {
+      const claimed = tables[this.table].some(existing =>
+        existing.conversation_id === row.conversation_id && existing.key_version === row.key_version
+      );
+      if (claimed) return { data: null, error: { code: '23505' } };
+      tables[this.table].push(row);
+      return { data: null, error: null };
+    };
+    return this;
+  }
+
+  upsert(rows: Row[]) {
+    // onConflict: 'key_id,user_id', ignoreDuplicates: true
+    this.run = () => {
+      rows
+        .filter(row => !tables[this.table].some(existing =>
+          existing.key_id === row.key_id && existing.user_id === row.user_id
+        ))
+        .forEach(row => tables[this.table].push(row));
+      return { data: null, error: null };
+    };
+    return this;
+  }
+
+  private execute() {
+    const rows = tables[this.table].filter(row => this.filters.every(([column, value]) => row[column] === value));
+    return this.run(rows);
+  }
+
+  async single() {
+    const { data, error } = this.execute();
+    return { data: (data as Row[])[0], error };
+  }
+
+  async maybeSingle() {
+    const { data, error } = this.execute();
+    return { data: (data as Row[])[0] ?? null, error };
+  }
+
+  then<T1, T2>(
+    onFulfilled?: (value: { data: unknown; error: unknown }) => T1 | PromiseLike<T1>,
+    onRejected?: (reason: unknown) => T2 | PromiseLike<T2>
+  ) {
+    return Promise.resolve(this.execute()).then(onFulfilled, onRejected);
+  }
+}
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: (table: string) => new FakeQuery(table) }
+}));
+
+vi.mock('@/lib/keyStore', () => ({
+  getRecord: async (key: string) => records.get(key),
+  putRecord: async (key: string, value: unknown) => {
+    records.set(key, value);
+  },
+  getRecordsWithPrefix: async (prefix: string) =>
+    [...records].filter(([key]) => key.startsWith(prefix)).map(([, value]) => value),
+  deleteRecordsWithPrefix: async (prefix: string) => {
+    [...records.keys()].filter(key => key.startsWith(prefix)).forEach(key => records.delete(key));
+  }
+}));
+
+vi.stubGlobal('window', globalThis);
+
+const { encryption } = await import('./encryption');
+
+const ALICE = '0b6f3d2a-9c41-4e78-a5d0-3f2e8b1c7a64';
+const BOB = 'e4a1c7d9-2b58-4f06-9e3a-6d8c0b5f1a27';
+const CONVERSATION = '7c2e9a14-d3b6-4f85-8a01-b9e5f4c2d736';
+
+const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+// Decrypt a message the way Bob's client would, from the copy of the key wrapped for him
+async function decryptAsBob(bobKeys: CryptoKeyPair, encryptedContent: string, keyId: string) {
+  const wrapped = tables.conversation_keys.find(k => k.key_id === keyId && k.user_id === BOB);
+  const key = await crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped!.wrapped_key as string),
+    bobKeys.privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+  const bytes = fromBase64(encryptedContent);
+  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12));
+  return new TextDecoder().decode(decrypted);
+}
+
+// Alice moves to a device with no keys on it
+async function switchDevice() {
+  records.clear();
+  encryption.clearKeyCache();
+  await encryption.initialize(ALICE);
+}
+
+describe('identity replacement', () => {
+  let bobKeys: CryptoKeyPair;
+
+  beforeEach(async () => {
+    bobKeys = await encryption.generateKeyPair();
+    tables.profiles = [
+      { id: ALICE, public_key: null },
+      { id: BOB, public_key: await encryption.exportKey(bobKeys.publicKey) }
+    ];
+    tables.conversations = [{ id: CONVERSATION, key_version: 1 }];
+    tables.conversation_participants = [
+      { conversation_id: CONVERSATION, user_id: ALICE },
+      { conversation_id: CONVERSATION, user_id: BOB }
+    ];
+    tables.conversation_keys = [];
+    tables.conversation_key_versions = [];
+
+    await switchDevice();
+    await encryption.setupPassphrase('first device passphrase');
+  });
+
+  it('refuses to replace a published identity unless asked to', async () => {
+    await switchDevice();
+
+    await expect(encryption.setupPassphrase('second device passphrase')).rejects.toThrow('another device');
+  });
+
+  it('can still send in existing conversations after replacing the identity', async () => {
+    const before = await encryption.encryptMessage('hello', CONVERSATION);
+
+    await switchDevice();
+    await encryption.setupPassphrase('second device passphrase', { replaceIdentity: true });
+    const after = await encryption.encryptMessage('still here', CONVERSATION);
+
+    expect(after.keyVersion).toBe(before.keyVersion + 1);
+    expect(await encryption.decryptMessage(after.encryptedContent, after.encryptionKeyId)).toBe('still here');
+    expect(await decryptAsBob(bobKeys, after.encryptedContent, after.encryptionKeyId)).toBe('still here');
+  });
+});
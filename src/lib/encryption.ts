@@ -1,8 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getRecord, putRecord, getRecordsWithPrefix, deleteRecordsWithPrefix } from '@/lib/keyStore';
+
+export type EncryptionStatus = 'uninitialized' | 'needs-setup' | 'locked' | 'unlocked';
+
+// AES-GCM ciphertext of key material sealed under the passphrase-derived storage key
+interface SealedData {
+  iv: string;
+  data: string;
+}
+
+interface KeyStoreMeta {
+  salt: string;
+  iterations: number;
+}
+
+interface StoredConversationKey {
+  keyId: string;
+  conversationId: string;
+  sealed: SealedData;
+}
+
+// Passphrase-encrypted export of the identity key and known conversation keys
+interface KeyBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  userId: string;
+  createdAt: string;
+  salt: string;
+  iterations: number;
+  sealed: SealedData;
+}
+
+interface KeyBackupContents {
+  identity: { publicKey: string; privateKey: string };
+  conversationKeys: { keyId: string; conversationId: string; key: string }[];
+}
+
+const PBKDF2_ITERATIONS = 600000;
+const BACKUP_FORMAT = 'pure-converse-key-backup';
+
+// Keys created before per-user wrapping stored the exported AES key inline in
+// encryption_key_id; current key ids are plain UUIDs.
+const KEY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // End-to-end encryption utilities using Web Crypto API
 class E2EEncryption {
+  // Unwrapped conversation keys, keyed by key id
   private keyCache = new Map<string, CryptoKey>();
+  // Current key per conversation, with the version it was issued for
+  private conversationKeys = new Map<string, { keyId: string; keyVersion: number }>();
+  // Keys that have been shared with every participant this session
+  private sharedKeys = new Set<string>();
+  private identity: CryptoKeyPair | null = null;
+  private userId: string | null = null;
+  // Derived from the user's passphrase; seals everything persisted in IndexedDB
+  private storageKey: CryptoKey | null = null;
+  private status: EncryptionStatus = 'uninitialized';
+  private listeners = new Set<(status: EncryptionStatus) => void>();
 
-  // Generate a new encryption key pair for a conversation
+  // Generate a new identity key pair used to wrap conversation keys
   async generateKeyPair(): Promise<CryptoKeyPair> {
     return await window.crypto.subtle.generateKey(
       {
@@ -12,7 +68,7 @@ class E2EEncryption {
         hash: 'SHA-256',
       },
       true,
-      ['encrypt', 'decrypt']
+      ['wrapKey', 'unwrapKey']
     );
   }
 
@@ -37,7 +93,7 @@ class E2EEncryption {
   // Import key from stored format
   async importKey(keyData: string, keyType: 'encrypt' | 'decrypt' = 'encrypt'): Promise<CryptoKey> {
     const keyObj = JSON.parse(keyData);
-    
+
     if (keyObj.kty === 'RSA') {
       return await window.crypto.subtle.importKey(
         'jwk',
@@ -47,7 +103,7 @@ class E2EEncryption {
           hash: 'SHA-256',
         },
         true,
-        keyType === 'encrypt' ? ['encrypt'] : ['decrypt']
+        keyType === 'encrypt' ? ['wrapKey'] : ['unwrapKey']
       );
     } else {
       return await window.crypto.subtle.importKey(
@@ -62,19 +118,477 @@ class E2EEncryption {
     }
   }
 
+  getStatus(): EncryptionStatus {
+    return this.status;
+  }
+
+  // Subscribe to lock/unlock changes; returns an unsubscribe function
+  subscribe(listener: (status: EncryptionStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: EncryptionStatus): void {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  // Check whether this device already holds keys for the user; keys stay locked until unlock()
+  async initialize(userId: string): Promise<void> {
+    if (this.userId === userId && this.status !== 'uninitialized') return;
+
+    this.forgetKeys();
+    this.userId = userId;
+
+    const meta = await getRecord<KeyStoreMeta>(`${userId}:meta`);
+    this.setStatus(meta ? 'locked' : 'needs-setup');
+  }
+
+  // Derive the storage key from a passphrase via PBKDF2
+  private async deriveStorageKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const baseKey = await window.crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return await window.crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations,
+        hash: 'SHA-256',
+      },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async seal(value: string, key: CryptoKey): Promise<SealedData> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(value)
+    );
+    return { iv: this.toBase64(iv), data: this.toBase64(new Uint8Array(encrypted)) };
+  }
+
+  private async unseal(sealed: SealedData, key: CryptoKey): Promise<string> {
+    const decrypted = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(sealed.iv) },
+      key,
+      this.fromBase64(sealed.data)
+    );
+    return new TextDecoder().decode(decrypted);
+  }
+
+  // First run on this device: protect a fresh identity key pair with a new passphrase.
+  // If the account already published an identity from another device, this replaces it
+  // only when asked to: contacts get a key change warning and older messages become unreadable.
+  // Replacing the published key moves every conversation the user is in to a new key version.
+  async setupPassphrase(passphrase: string, { replaceIdentity = false } = {}): Promise<void> {
+    if (!this.userId || this.status !== 'needs-setup') {
+      throw new Error('Encryption keys are already set up on this device');
+    }
+    const userId = this.userId;
+
+    if (!replaceIdentity && await this.fetchPublishedPublicKey(userId)) {
+      throw new Error('Your account already has encryption keys on another device. Restore them from a backup instead.');
+    }
+    const identity = await this.generateKeyPair();
+
+    await this.writeKeyStore(userId, passphrase, identity, []);
+    await this.publishPublicKey(userId, await this.exportKey(identity.publicKey), { replace: replaceIdentity });
+  }
+
+  // Replace this device's key store with the given keys sealed under a new passphrase
+  private async writeKeyStore(
+    userId: string,
+    passphrase: string,
+    identity: CryptoKeyPair,
+    conversationKeys: { keyId: string; conversationId: string; key: CryptoKey }[]
+  ): Promise<void> {
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const storageKey = await this.deriveStorageKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+    const publicKeyData = await this.exportKey(identity.publicKey);
+    const sealedIdentity = await this.seal(JSON.stringify({
+      publicKey: publicKeyData,
+      privateKey: await this.exportKey(identity.privateKey),
+    }), storageKey);
+
+    // Anything sealed under a previous passphrase can no longer be opened
+    await deleteRecordsWithPrefix(`${userId}:`);
+    await putRecord<KeyStoreMeta>(`${userId}:meta`, {
+      salt: this.toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+    });
+    await putRecord(`${userId}:identity`, sealedIdentity);
+
+    for (const { keyId, conversationId, key } of conversationKeys) {
+      await putRecord<StoredConversationKey>(`${userId}:conversation-key:${keyId}`, {
+        keyId,
+        conversationId,
+        sealed: await this.seal(await this.exportKey(key), storageKey),
+      });
+    }
+
+    this.forgetKeys();
+    this.identity = identity;
+    this.storageKey = storageKey;
+    this.setStatus('unlocked');
+  }
+
+  // True when this device has no keys but the account already published an identity elsewhere
+  async needsKeyRestore(userId: string): Promise<boolean> {
+    await this.initialize(userId);
+    if (this.status !== 'needs-setup') return false;
+
+    return !!(await this.fetchPublishedPublicKey(userId));
+  }
+
+  // Export the identity key and every conversation key stored on this device
+  async exportBackup(backupPassphrase: string): Promise<string> {
+    const { userId, identity } = this.getIdentity();
+
+    const storedKeys = await getRecordsWithPrefix<StoredConversationKey>(`${userId}:conversation-key:`);
+    const contents: KeyBackupContents = {
+      identity: {
+        publicKey: await this.exportKey(identity.publicKey),
+        privateKey: await this.exportKey(identity.privateKey),
+      },
+      conversationKeys: await Promise.all(storedKeys.map(async (stored) => ({
+        keyId: stored.keyId,
+        conversationId: stored.conversationId,
+        key: await this.unseal(stored.sealed, this.storageKey!),
+      }))),
+    };
+
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const backupKey = await this.deriveStorageKey(backupPassphrase, salt, PBKDF2_ITERATIONS);
+
+    const backup: KeyBackupFile = {
+      format: BACKUP_FORMAT,
+      version: 1,
+      userId,
+      createdAt: new Date().toISOString(),
+      salt: this.toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      sealed: await this.seal(JSON.stringify(contents), backupKey),
+    };
+    return JSON.stringify(backup, null, 2);
+  }
+
+  // Restore keys from a backup file, re-sealing them under this device's passphrase
+  async importBackup(backupData: string, backupPassphrase: string, devicePassphrase: string): Promise<void> {
+    if (!this.userId) {
+      throw new Error('Encryption has not been initialized');
+    }
+    const userId = this.userId;
+
+    let backup: KeyBackupFile;
+    try {
+      backup = JSON.parse(backupData);
+    } catch {
+      throw new Error('This is not a key backup file');
+    }
+    if (backup.format !== BACKUP_FORMAT || backup.version !== 1) {
+      throw new Error('This is not a key backup file');
+    }
+    if (backup.userId !== userId) {
+      throw new Error('This backup belongs to a different account');
+    }
+
+    const backupKey = await this.deriveStorageKey(backupPassphrase, this.fromBase64(backup.salt), backup.iterations);
+
+    let contents: KeyBackupContents;
+    try {
+      contents = JSON.parse(await this.unseal(backup.sealed, backupKey));
+    } catch {
+      throw new Error('Incorrect backup passphrase');
+    }
+
+    const identity = {
+      publicKey: await this.importKey(contents.identity.publicKey, 'encrypt'),
+      privateKey: await this.importKey(contents.identity.privateKey, 'decrypt'),
+    };
+    const conversationKeys = await Promise.all(contents.conversationKeys.map(async (stored) => ({
+      keyId: stored.keyId,
+      conversationId: stored.conversationId,
+      key: await this.importKey(stored.key),
+    })));
+
+    await this.writeKeyStore(userId, devicePassphrase, identity, conversationKeys);
+    await this.publishPublicKey(userId, contents.identity.publicKey);
+  }
+
+  // Unseal the stored identity key pair with the user's passphrase
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.userId) {
+      throw new Error('Encryption has not been initialized');
+    }
+    const userId = this.userId;
+
+    const meta = await getRecord<KeyStoreMeta>(`${userId}:meta`);
+    const sealedIdentity = await getRecord<SealedData>(`${userId}:identity`);
+    if (!meta || !sealedIdentity) {
+      throw new Error('No encryption keys are stored on this device');
+    }
+
+    const storageKey = await this.deriveStorageKey(passphrase, this.fromBase64(meta.salt), meta.iterations);
+
+    let stored: { publicKey: string; privateKey: string };
+    try {
+      stored = JSON.parse(await this.unseal(sealedIdentity, storageKey));
+    } catch {
+      throw new Error('Incorrect passphrase');
+    }
+
+    const identity = {
+      publicKey: await this.importKey(stored.publicKey, 'encrypt'),
+      privateKey: await this.importKey(stored.privateKey, 'decrypt'),
+    };
+
+    // Only fills in a missing key; another device's newer identity is never overwritten
+    await this.publishPublicKey(userId, stored.publicKey);
+
+    this.identity = identity;
+    this.storageKey = storageKey;
+    this.setStatus('unlocked');
+  }
+
+  // Forget all unsealed keys but keep the user signed in; unlock() restores them
+  lock(): void {
+    this.forgetKeys();
+    if (this.userId) {
+      this.setStatus('locked');
+    }
+  }
+
+  private forgetKeys(): void {
+    this.keyCache.clear();
+    this.conversationKeys.clear();
+    this.sharedKeys.clear();
+    this.identity = null;
+    this.storageKey = null;
+  }
+
+  private async fetchPublishedPublicKey(userId: string): Promise<string | null> {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('public_key')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return profile.public_key;
+  }
+
+  // Publish our public key if the account has none, or replace the published one when
+  // a new identity was just set up on purpose
+  private async publishPublicKey(userId: string, publicKeyData: string, { replace = false } = {}): Promise<void> {
+    const published = await this.fetchPublishedPublicKey(userId);
+    if (published === publicKeyData || (published && !replace)) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ public_key: publicKeyData })
+      .eq('id', userId);
+
+    if (error) throw error;
+  }
+
+  private getIdentity(): { userId: string; identity: CryptoKeyPair } {
+    if (this.status !== 'unlocked' || !this.userId || !this.identity) {
+      throw new Error('Encryption keys are locked');
+    }
+    return { userId: this.userId, identity: this.identity };
+  }
+
+  // Persist an unwrapped conversation key, sealed under the storage key
+  private async storeConversationKey(keyId: string, conversationId: string, key: CryptoKey): Promise<void> {
+    const { userId } = this.getIdentity();
+    await putRecord<StoredConversationKey>(`${userId}:conversation-key:${keyId}`, {
+      keyId,
+      conversationId,
+      sealed: await this.seal(await this.exportKey(key), this.storageKey!),
+    });
+  }
+
+  private async loadStoredConversationKey(keyId: string): Promise<CryptoKey | null> {
+    const { userId } = this.getIdentity();
+    const stored = await getRecord<StoredConversationKey>(`${userId}:conversation-key:${keyId}`);
+    if (!stored) return null;
+    return await this.importKey(await this.unseal(stored.sealed, this.storageKey!));
+  }
+
+  // Wrap a conversation key for a participant using their published public key
+  private async wrapConversationKey(key: CryptoKey, publicKeyData: string): Promise<string> {
+    const publicKey = await this.importKey(publicKeyData, 'encrypt');
+    const wrapped = await window.crypto.subtle.wrapKey('raw', key, publicKey, { name: 'RSA-OAEP' });
+    return this.toBase64(new Uint8Array(wrapped));
+  }
+
+  private async unwrapConversationKey(wrappedKey: string): Promise<CryptoKey> {
+    const { identity } = this.getIdentity();
+    return await window.crypto.subtle.unwrapKey(
+      'raw',
+      this.fromBase64(wrappedKey),
+      identity.privateKey,
+      { name: 'RSA-OAEP' },
+      { name: 'AES-GCM' },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  // Wrap the key for every participant that has published a public key
+  private async shareConversationKey(
+    conversationId: string,
+    keyId: string,
+    keyVersion: number,
+    key: CryptoKey
+  ): Promise<void> {
+    const { userId } = this.getIdentity();
+
+    const { data: participants, error } = await supabase
+      .from('conversation_participants')
+      .select('profiles!inner(id, public_key)')
+      .eq('conversation_id', conversationId);
+
+    if (error) throw error;
+
+    // Other participants' copies aren't visible to us, so wrap for everyone and
+    // let the unique (key_id, user_id) constraint skip copies that already exist
+    const rows = await Promise.all(
+      (participants || [])
+        .map(p => p.profiles)
+        .filter(p => p.public_key)
+        .map(async (p) => ({
+          conversation_id: conversationId,
+          key_id: keyId,
+          key_version: keyVersion,
+          user_id: p.id,
+          wrapped_key: await this.wrapConversationKey(key, p.public_key!),
+          created_by: userId,
+        }))
+    );
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('conversation_keys')
+        .upsert(rows, { onConflict: 'key_id,user_id', ignoreDuplicates: true });
+
+      if (insertError) throw insertError;
+    }
+
+    this.sharedKeys.add(keyId);
+  }
+
+  // Generate a key for a new version and wrap it for the current participants.
+  // Returns null if another participant claimed the version first.
+  private async createConversationKey(
+    conversationId: string,
+    keyVersion: number
+  ): Promise<{ keyId: string; keyVersion: number; key: CryptoKey } | null> {
+    const { userId } = this.getIdentity();
+    const keyId = window.crypto.randomUUID();
+    const key = await this.generateSymmetricKey();
+
+    const { error } = await supabase
+      .from('conversation_key_versions')
+      .insert({
+        conversation_id: conversationId,
+        key_version: keyVersion,
+        key_id: keyId,
+        created_by: userId,
+      });
+
+    if (error) {
+      // Unique violation: this version already has a canonical key
+      if (error.code === '23505') return null;
+      throw error;
+    }
+
+    await this.storeConversationKey(keyId, conversationId, key);
+    await this.shareConversationKey(conversationId, keyId, keyVersion, key);
+    this.keyCache.set(keyId, key);
+    return { keyId, keyVersion, key };
+  }
+
+  // Get the key for the conversation's current version, creating it if membership changed
+  private async getConversationKey(
+    conversationId: string
+  ): Promise<{ keyId: string; keyVersion: number; key: CryptoKey }> {
+    this.getIdentity();
+
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .select('key_version')
+      .eq('id', conversationId)
+      .single();
+
+    if (error) throw error;
+
+    const keyVersion = conversation.key_version;
+    const cached = this.conversationKeys.get(conversationId);
+    if (cached && cached.keyVersion === keyVersion && this.keyCache.has(cached.keyId)) {
+      return { ...cached, key: this.keyCache.get(cached.keyId)! };
+    }
+
+    const findCanonicalKeyId = async () => {
+      const { data, error: versionError } = await supabase
+        .from('conversation_key_versions')
+        .select('key_id')
+        .eq('conversation_id', conversationId)
+        .eq('key_version', keyVersion)
+        .maybeSingle();
+
+      if (versionError) throw versionError;
+      return data?.key_id ?? null;
+    };
+
+    let keyId = await findCanonicalKeyId();
+    if (!keyId) {
+      const created = await this.createConversationKey(conversationId, keyVersion);
+      if (created) {
+        this.conversationKeys.set(conversationId, { keyId: created.keyId, keyVersion });
+        return created;
+      }
+      keyId = await findCanonicalKeyId();
+      if (!keyId) throw new Error('Could not resolve the conversation key');
+    }
+
+    const key = await this.getKeyById(keyId);
+    this.conversationKeys.set(conversationId, { keyId, keyVersion });
+    return { keyId, keyVersion, key };
+  }
+
+  // Make sure the conversation has a key for its current membership, e.g. right after a kick
+  async rotateConversationKey(conversationId: string): Promise<void> {
+    await this.getConversationKey(conversationId);
+  }
+
   // Encrypt message content
   async encryptMessage(message: string, conversationId: string): Promise<{
     encryptedContent: string;
     encryptionKeyId: string;
+    keyVersion: number;
   }> {
     const encoder = new TextEncoder();
     const data = encoder.encode(message);
 
-    // Generate or get symmetric key for this conversation
-    let symmetricKey = this.keyCache.get(conversationId);
-    if (!symmetricKey) {
-      symmetricKey = await this.generateSymmetricKey();
-      this.keyCache.set(conversationId, symmetricKey);
+    const { keyId, keyVersion, key } = await this.getConversationKey(conversationId);
+    // Catch up participants who published a public key after the key was created
+    if (!this.sharedKeys.has(keyId)) {
+      await this.shareConversationKey(conversationId, keyId, keyVersion, key);
     }
 
     // Generate random IV
@@ -86,7 +600,7 @@ class E2EEncryption {
         name: 'AES-GCM',
         iv: iv,
       },
-      symmetricKey,
+      key,
       data
     );
 
@@ -95,57 +609,89 @@ class E2EEncryption {
     encryptedArray.set(iv);
     encryptedArray.set(new Uint8Array(encrypted), iv.length);
 
-    // Convert to base64 for storage
-    const encryptedContent = btoa(String.fromCharCode(...encryptedArray));
-    const encryptionKeyId = await this.exportKey(symmetricKey);
-
     return {
-      encryptedContent,
-      encryptionKeyId: btoa(encryptionKeyId) // Store key ID as base64
+      encryptedContent: this.toBase64(encryptedArray),
+      encryptionKeyId: keyId,
+      keyVersion
     };
   }
 
-  // Decrypt message content
+  // Look up the key a message was encrypted with, unwrapping our copy if needed
+  private async getKeyById(encryptionKeyId: string): Promise<CryptoKey> {
+    if (!KEY_ID_PATTERN.test(encryptionKeyId)) {
+      return await this.importKey(atob(encryptionKeyId));
+    }
+
+    const cached = this.keyCache.get(encryptionKeyId);
+    if (cached) return cached;
+
+    const storedKey = await this.loadStoredConversationKey(encryptionKeyId);
+    if (storedKey) {
+      this.keyCache.set(encryptionKeyId, storedKey);
+      return storedKey;
+    }
+
+    const { userId } = this.getIdentity();
+    const { data, error } = await supabase
+      .from('conversation_keys')
+      .select('conversation_id, wrapped_key')
+      .eq('key_id', encryptionKeyId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error('No conversation key has been shared with this user');
+
+    const key = await this.unwrapConversationKey(data.wrapped_key);
+    await this.storeConversationKey(encryptionKeyId, data.conversation_id, key);
+    this.keyCache.set(encryptionKeyId, key);
+    return key;
+  }
+
+  // Decrypt message content; throws if the key or ciphertext is invalid
   async decryptMessage(encryptedContent: string, encryptionKeyId: string): Promise<string> {
-    try {
-      // Decode the encryption key
-      const keyData = atob(encryptionKeyId);
-      const symmetricKey = await this.importKey(keyData);
-
-      // Decode the encrypted content
-      const encryptedArray = new Uint8Array(
-        atob(encryptedContent)
-          .split('')
-          .map(char => char.charCodeAt(0))
-      );
+    const symmetricKey = await this.getKeyById(encryptionKeyId);
 
-      // Extract IV (first 12 bytes) and encrypted data
-      const iv = encryptedArray.slice(0, 12);
-      const encrypted = encryptedArray.slice(12);
+    // Decode the encrypted content
+    const encryptedArray = this.fromBase64(encryptedContent);
 
-      // Decrypt the message
-      const decrypted = await window.crypto.subtle.decrypt(
-        {
-          name: 'AES-GCM',
-          iv: iv,
-        },
-        symmetricKey,
-        encrypted
-      );
+    // Extract IV (first 12 bytes) and encrypted data
+    const iv = encryptedArray.slice(0, 12);
+    const encrypted = encryptedArray.slice(12);
 
-      // Convert back to string
-      const decoder = new TextDecoder();
-      return decoder.decode(decrypted);
-    } catch (error) {
-      console.error('Decryption failed:', error);
-      return '[Encrypted Message - Unable to decrypt]';
-    }
+    // Decrypt the message
+    const decrypted = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv,
+      },
+      symmetricKey,
+      encrypted
+    );
+
+    // Convert back to string
+    const decoder = new TextDecoder();
+    return decoder.decode(decrypted);
   }
 
-  // Clear cached keys (e.g., on logout)
+  private toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  private fromBase64(encoded: string): Uint8Array {
+    return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+  }
+
+  // Clear cached keys (e.g., on logout); sealed keys stay in IndexedDB for the next unlock
   clearKeyCache(): void {
-    this.keyCache.clear();
+    this.forgetKeys();
+    this.userId = null;
+    this.setStatus('uninitialized');
   }
 }
 
-export const encryption = new E2EEncryption();
\ No newline at end of file
+export const encryption = new E2EEncryption();
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { FILE_CHUNK_SIZE, decryptFile, encryptFile } from './fileEncryption';
+
+const patterned = (length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = (i * 31 + (i >> 8)) & 0xff;
+  return bytes;
+};
+
+// Deep equality on megabytes of bytes is far too slow in expect()
+const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// Feeds the ciphertext in uneven pieces, like a network download would
+const streamOf = (bytes: Uint8Array, pieceSize: number) => {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + pieceSize));
+      offset += pieceSize;
+    }
+  });
+};
+
+const roundTrip = async (plaintext: Uint8Array, pieceSize = 100_003) => {
+  const { encrypted, fileKey } = await encryptFile(new Blob([plaintext]));
+  const ciphertext = new Uint8Array(await encrypted.arrayBuffer());
+  const decrypted = await decryptFile(streamOf(ciphertext, pieceSize), fileKey, 'application/pdf');
+  return { decrypted };
+};
+
+describe('file encryption', () => {
+  it.each([
+    ['a partial last chunk', FILE_CHUNK_SIZE * 2 + 12_345],
+    ['an exact multiple of the chunk size', FILE_CHUNK_SIZE * 2],
+    ['less than one chunk', 10],
+    ['an empty file', 0]
+  ])('round-trips %s', async (_, size) => {
+    const plaintext = patterned(size);
+    const { decrypted } = await roundTrip(plaintext);
+
+    expect(decrypted.type).toBe('application/pdf');
+    expect(sameBytes(new Uint8Array(await decrypted.arrayBuffer()), plaintext)).toBe(true);
+  });
+
+  it('handles reads larger than a chunk', async () => {
+    const plaintext = patterned(FILE_CHUNK_SIZE * 3 + 7);
+    const { decrypted } = await roundTrip(plaintext, FILE_CHUNK_SIZE * 2 + 99);
+
+    expect(sameBytes(new Uint8Array(await decrypted.arrayBuffer()), plaintext)).toBe(true);
+  });
+
+  it('rejects a file cut off at a chunk boundary', async () => {
+    const { encrypted, fileKey } = await encryptFile(new Blob([patterned(FILE_CHUNK_SIZE * 2 + 5)]));
+    const ciphertext = new Uint8Array(await encrypted.arrayBuffer());
+    const truncated = ciphertext.slice(0, (FILE_CHUNK_SIZE + 16) * 2);
+
+    await expect(decryptFile(streamOf(truncated, 65_536), fileKey, 'text/plain')).rejects.toThrow();
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const { encrypted, fileKey } = await encryptFile(new Blob([patterned(1000)]));
+    const ciphertext = new Uint8Array(await encrypted.arrayBuffer());
+    ciphertext[10] ^= 1;
+
+    await expect(decryptFile(streamOf(ciphertext, 64), fileKey, 'text/plain')).rejects.toThrow();
+  });
+
+  it('rejects an empty download', async () => {
+    const { fileKey } = await encryptFile(new Blob([patterned(10)]));
+
+    await expect(decryptFile(streamOf(new Uint8Array(0), 64), fileKey, 'text/plain')).rejects.toThrow('empty');
+  });
+});
@@ -0,0 +1,171 @@
+// Chunked AES-GCM for attachments. Every file gets its own key, which travels inside
+// the (already encrypted) message body, so the server only ever stores ciphertext.
+//
+// Layout: the plaintext is split into CHUNK_SIZE pieces, each sealed separately.
+// A chunk's IV is the file's random 8-byte nonce followed by the chunk index, and
+// its additional data marks whether it is the last chunk, so chunks can't be
+// reordered, dropped or cut off at the end without decryption failing.
+
+export const FILE_CHUNK_SIZE = 1024 * 1024;
+const TAG_LENGTH = 16;
+const NONCE_LENGTH = 8;
+
+export interface FileEncryptionKey {
+  key: string;
+  nonce: string;
+  chunkSize: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+}
+
+function chunkIv(nonce: Uint8Array, index: number): Uint8Array {
+  const iv = new Uint8Array(NONCE_LENGTH + 4);
+  iv.set(nonce);
+  new DataView(iv.buffer).setUint32(NONCE_LENGTH, index);
+  return iv;
+}
+
+function chunkParams(nonce: Uint8Array, index: number, isLast: boolean): AesGcmParams {
+  return {
+    name: 'AES-GCM',
+    iv: chunkIv(nonce, index),
+    additionalData: new Uint8Array([isLast ? 1 : 0]),
+    tagLength: TAG_LENGTH * 8
+  };
+}
+
+async function importFileKey(fileKey: FileEncryptionKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(fileKey.key), 'AES-GCM', false, ['decrypt']);
+}
+
+// Seals one chunk at a time. Each sealed chunk is appended to the output Blob straight
+// away, so at most one chunk of plaintext and ciphertext is in the JS heap at once; the
+// Blob itself is left to the browser, which can page large ones to disk.
+export async function encryptFile(file: Blob): Promise<{ encrypted: Blob; fileKey: FileEncryptionKey }> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  // An empty file is still one (empty) chunk so the last-chunk marker exists
+  const chunkCount = Math.max(Math.ceil(file.size / FILE_CHUNK_SIZE), 1);
+  let encrypted = new Blob([], { type: 'application/octet-stream' });
+
+  for (let index = 0; index < chunkCount; index++) {
+    const plaintext = await file
+      .slice(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE)
+      .arrayBuffer();
+    const sealed = await crypto.subtle.encrypt(chunkParams(nonce, index, index === chunkCount - 1), key, plaintext);
+    encrypted = new Blob([encrypted, sealed], { type: 'application/octet-stream' });
+  }
+
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+
+  return {
+    encrypted,
+    fileKey: {
+      key: toBase64(rawKey),
+      nonce: toBase64(nonce),
+      chunkSize: FILE_CHUNK_SIZE
+    }
+  };
+}
+
+// Decrypts as the download arrives and emits each plaintext chunk as soon as it's
+// verified. Network reads are queued as they come and only copied once, when a
+// whole encrypted chunk is assembled, so at most about two chunks are buffered.
+export function decryptFileStream(
+  stream: ReadableStream<Uint8Array>,
+  fileKey: FileEncryptionKey
+): ReadableStream<Uint8Array> {
+  const keyPromise = importFileKey(fileKey);
+  const nonce = fromBase64(fileKey.nonce);
+  const encryptedChunkSize = fileKey.chunkSize + TAG_LENGTH;
+  const reader = stream.getReader();
+  const queue: Uint8Array[] = [];
+  let queued = 0;
+  let done = false;
+  let index = 0;
+
+  const takeChunk = (length: number) => {
+    const chunk = new Uint8Array(length);
+    let offset = 0;
+
+    while (offset < length) {
+      const head = queue[0];
+      const needed = length - offset;
+      if (head.length <= needed) {
+        chunk.set(head, offset);
+        offset += head.length;
+        queue.shift();
+      } else {
+        chunk.set(head.subarray(0, needed), offset);
+        queue[0] = head.subarray(needed);
+        offset = length;
+      }
+    }
+
+    queued -= length;
+    return chunk;
+  };
+
+  const decryptChunk = async (chunk: Uint8Array, isLast: boolean) => {
+    const plaintext = await crypto.subtle.decrypt(chunkParams(nonce, index, isLast), await keyPromise, chunk);
+    index++;
+    return new Uint8Array(plaintext);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Hold back a full chunk until more data arrives: it might turn out to be the last one
+        while (!done && queued <= encryptedChunkSize) {
+          const { done: streamDone, value } = await reader.read();
+          if (streamDone) {
+            done = true;
+          } else if (value.length > 0) {
+            queue.push(value);
+            queued += value.length;
+          }
+        }
+
+        if (queued > encryptedChunkSize) {
+          controller.enqueue(await decryptChunk(takeChunk(encryptedChunkSize), false));
+          return;
+        }
+
+        // Whatever is left once the download ends is the last chunk
+        if (queued === 0) {
+          throw new Error('Encrypted file is empty');
+        }
+
+        controller.enqueue(await decryptChunk(takeChunk(queued), true));
+        controller.close();
+      } catch (error) {
+        reader.cancel(error).catch(() => {});
+        throw error;
+      }
+    },
+
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+// Collects the decrypted stream into a Blob, which the browser rather than the JS heap holds
+export async function decryptFile(
+  stream: ReadableStream<Uint8Array>,
+  fileKey: FileEncryptionKey,
+  mimeType: string
+): Promise<Blob> {
+  const plaintext = await new Response(decryptFileStream(stream, fileKey)).blob();
+  return new Blob([plaintext], { type: mimeType });
+}
@@ -0,0 +1,92 @@
+// Safety numbers and key fingerprints for verifying identity keys out of band
+
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+export const FINGERPRINT_GRID_SIZE = 8;
+
+// Only the RSA modulus and exponent identify the key; JWK field order and flags don't
+function canonicalPublicKey(publicKey: string): string {
+  const { n, e } = JSON.parse(publicKey);
+  return `${e}.${n}`;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await window.crypto.subtle.digest('SHA-256', data));
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+// Stable hex digest of a public key, stored when a contact is marked as verified
+export async function keyFingerprint(publicKey: string): Promise<string> {
+  const digest = await sha256(new TextEncoder().encode(canonicalPublicKey(publicKey)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// 30 digits for one party, derived by iterated hashing of their key and user id
+async function partyDigits(userId: string, publicKey: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(canonicalPublicKey(publicKey));
+  let hash = concatBytes(new Uint8Array([FINGERPRINT_VERSION]), key, encoder.encode(userId));
+
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = await sha256(concatBytes(hash, key));
+  }
+
+  // Six 5-digit chunks, each from 5 bytes of the hash
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + hash[chunk * 5 + i];
+    }
+    digits += (value % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+}
+
+export interface SafetyNumber {
+  // Twelve groups of five digits, identical on both sides of the conversation
+  groups: string[];
+  // FINGERPRINT_GRID_SIZE x FINGERPRINT_GRID_SIZE cells for visual comparison
+  grid: boolean[][];
+}
+
+export async function computeSafetyNumber(
+  userIdA: string,
+  publicKeyA: string,
+  userIdB: string,
+  publicKeyB: string
+): Promise<SafetyNumber> {
+  // Order parties by user id so both users compute the same number
+  const parties = [
+    { userId: userIdA, publicKey: publicKeyA },
+    { userId: userIdB, publicKey: publicKeyB },
+  ].sort((a, b) => a.userId.localeCompare(b.userId));
+
+  const digits = (await Promise.all(
+    parties.map(party => partyDigits(party.userId, party.publicKey))
+  )).join('');
+
+  const groups = digits.match(/.{5}/g) || [];
+
+  // Mirror the left half of the grid for an easier-to-compare symmetric pattern
+  const gridHash = await sha256(new TextEncoder().encode(digits));
+  const half = FINGERPRINT_GRID_SIZE / 2;
+  const grid = Array.from({ length: FINGERPRINT_GRID_SIZE }, (_, row) => {
+    const left = Array.from({ length: half }, (_, col) => {
+      const bit = row * half + col;
+      return ((gridHash[bit >> 3] >> (bit & 7)) & 1) === 1;
+    });
+    return [...left, ...[...left].reverse()];
+  });
+
+  return { groups, grid };
+}
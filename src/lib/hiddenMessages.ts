@@ -0,0 +1,20 @@
+// "Delete for me": messages hidden only on this device, remembered per user
+
+const storageKey = (userId: string) => `hidden-messages:${userId}`;
+
+export function loadHiddenMessageIds(userId: string): Set<string> {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    const ids = stored ? JSON.parse(stored) : [];
+    return new Set(Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+export function hideMessage(userId: string, messageId: string): Set<string> {
+  const ids = loadHiddenMessageIds(userId);
+  ids.add(messageId);
+  localStorage.setItem(storageKey(userId), JSON.stringify(Array.from(ids)));
+  return ids;
+}
@@ -0,0 +1,59 @@
+// Minimal IndexedDB wrapper for persisting encrypted key material on this device
+const DB_NAME = 'pure-converse-keys';
+const DB_VERSION = 1;
+const STORE_NAME = 'keys';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Every record key under a prefix sorts between the prefix and prefix + '\uffff'
+function prefixRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+}
+
+export async function getRecord<T>(key: string): Promise<T | undefined> {
+  return await runRequest('readonly', store => store.get(key)) as T | undefined;
+}
+
+export async function putRecord<T>(key: string, value: T): Promise<void> {
+  await runRequest('readwrite', store => store.put(value, key));
+}
+
+export async function getRecordsWithPrefix<T>(prefix: string): Promise<T[]> {
+  return await runRequest('readonly', store => store.getAll(prefixRange(prefix))) as T[];
+}
+
+export async function deleteRecordsWithPrefix(prefix: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(prefixRange(prefix)));
+}
@@ -0,0 +1,44 @@
+// Preferred call devices and audio processing, remembered between calls on this device
+
+export interface CallDeviceSettings {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+const STORAGE_KEY = 'call-device-settings';
+
+const DEFAULT_SETTINGS: CallDeviceSettings = {
+  echoCancellation: true,
+  noiseSuppression: true
+};
+
+export function loadCallDeviceSettings(): CallDeviceSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveCallDeviceSettings(settings: CallDeviceSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// "ideal" rather than "exact", so an unplugged device falls back to the default one
+export function audioConstraints(settings: CallDeviceSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.audioInputId ? { ideal: settings.audioInputId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression
+  };
+}
+
+export function videoConstraints(settings: CallDeviceSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.videoInputId ? { ideal: settings.videoInputId } : undefined
+  };
+}
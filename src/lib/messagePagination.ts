@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Keyset pagination over (created_at, id): stable under concurrent inserts, unlike offsets
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+export const MESSAGE_COLUMNS = `
+  id,
+  client_id,
+  content,
+  encrypted_content,
+  encryption_key_id,
+  sender_id,
+  created_at,
+  reply_to,
+  message_type,
+  edited_at,
+  deleted_at,
+  profiles!inner(
+    id,
+    username,
+    status,
+    avatar_url,
+    display_name
+  )
+`;
+
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+// Oldest first, the order messages are shown in
+export function compareMessages(a: MessageCursor, b: MessageCursor): number {
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+// The page of messages just before `before` (or the newest page), returned oldest first
+export async function fetchMessagePage(conversationId: string, before?: MessageCursor) {
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId);
+
+  if (before) {
+    // Timestamps are quoted so their punctuation isn't read as filter syntax
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  // One extra row tells us whether there is another page without a count query
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (error) throw error;
+
+  return {
+    messages: data.slice(0, MESSAGE_PAGE_SIZE).reverse(),
+    hasMore: data.length > MESSAGE_PAGE_SIZE
+  };
+}
+
+// A single message with its sender, for rows that arrive over realtime without one
+export async function fetchMessage(messageId: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
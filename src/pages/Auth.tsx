@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -7,16 +7,49 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { MessageCircle } from 'lucide-react';
+import { encryption } from '@/lib/encryption';
+import { MessageCircle, KeyRound } from 'lucide-react';
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 export default function Auth() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [username, setUsername] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const { user, loading: authLoading, signIn, signUp } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [restoreStep, setRestoreStep] = useState<'checking' | 'restore' | null>(null);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [devicePassphrase, setDevicePassphrase] = useState('');
+
+  // Once signed in, offer to restore keys if this device has none but the account does
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setRestoreStep('checking');
+
+    encryption.needsKeyRestore(user.id)
+      .then((needsRestore) => {
+        if (cancelled) return;
+        if (needsRestore) {
+          setRestoreStep('restore');
+        } else {
+          navigate('/');
+        }
+      })
+      .catch((error) => {
+        console.error('Error checking encryption keys:', error);
+        if (!cancelled) navigate('/');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, navigate]);
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,12 +64,47 @@ export default function Auth() {
         variant: "destructive"
       });
     } else {
-      navigate('/');
+      // The auth page checks whether this device still needs its keys restored
+      navigate('/auth');
     }
     
     setLoading(false);
   };
 
+  const handleRestoreKeys = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupFile) return;
+
+    if (devicePassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: "Error",
+        description: `Device passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await encryption.importBackup(await backupFile.text(), backupPassphrase, devicePassphrase);
+
+      toast({
+        title: "Keys restored",
+        description: "Your message history is available on this device"
+      });
+      navigate('/');
+    } catch (error) {
+      console.error('Error restoring keys:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore keys",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -59,6 +127,85 @@ export default function Auth() {
     setLoading(false);
   };
 
+  if (authLoading || restoreStep === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (user && restoreStep === 'restore') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <KeyRound className="h-12 w-12" />
+            </div>
+            <CardTitle className="text-2xl font-bold">Restore your keys</CardTitle>
+            <CardDescription>
+              This device has no encryption keys for your account. Restore them from a backup
+              to read your earlier messages.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRestoreKeys} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="restore-file">Backup file</Label>
+                <Input
+                  id="restore-file"
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restore-backup-passphrase">Backup passphrase</Label>
+                <Input
+                  id="restore-backup-passphrase"
+                  type="password"
+                  placeholder="Passphrase used for the backup"
+                  value={backupPassphrase}
+                  onChange={(e) => setBackupPassphrase(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restore-device-passphrase">Passphrase for this device</Label>
+                <Input
+                  id="restore-device-passphrase"
+                  type="password"
+                  placeholder="Used to unlock your keys here"
+                  value={devicePassphrase}
+                  onChange={(e) => setDevicePassphrase(e.target.value)}
+                  required
+                />
+              </div>
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={loading || !backupFile}
+              >
+                {loading ? "Restoring..." : "Restore Keys"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => navigate('/')}
+                disabled={loading}
+              >
+                Skip for now
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
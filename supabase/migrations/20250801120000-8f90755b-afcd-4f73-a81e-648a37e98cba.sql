@@ -0,0 +1,36 @@
+-- Publish each user's identity public key (RSA-OAEP, JWK) on their profile
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS public_key TEXT;
+
+-- Conversation keys, wrapped once per participant with that participant's public key
+CREATE TABLE IF NOT EXISTS public.conversation_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  key_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(key_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS conversation_keys_conversation_user_idx
+ON public.conversation_keys (conversation_id, user_id, created_at DESC);
+
+-- Enable RLS for conversation keys
+ALTER TABLE public.conversation_keys ENABLE ROW LEVEL SECURITY;
+
+-- Users only ever see the copies wrapped for them
+CREATE POLICY "Users can view their own wrapped keys"
+ON public.conversation_keys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Participants can share a key with other participants of the same conversation
+CREATE POLICY "Participants can share keys within their conversations"
+ON public.conversation_keys
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  public.user_is_conversation_participant(conversation_id, auth.uid()) AND
+  public.user_is_conversation_participant(conversation_id, user_id)
+);
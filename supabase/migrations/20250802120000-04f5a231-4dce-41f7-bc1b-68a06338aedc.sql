@@ -0,0 +1,60 @@
+-- Versioned conversation keys: every membership change requires a new key version
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.conversation_keys ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+-- One canonical key per conversation version; the first client to claim a version wins
+CREATE TABLE IF NOT EXISTS public.conversation_key_versions (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  key_version INTEGER NOT NULL,
+  key_id UUID NOT NULL UNIQUE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, key_version)
+);
+
+-- Existing conversations keep their earliest key as version 1
+INSERT INTO public.conversation_key_versions (conversation_id, key_version, key_id, created_by, created_at)
+SELECT DISTINCT ON (conversation_id) conversation_id, 1, key_id, created_by, created_at
+FROM public.conversation_keys
+ORDER BY conversation_id, created_at
+ON CONFLICT DO NOTHING;
+
+-- Enable RLS for key versions
+ALTER TABLE public.conversation_key_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view key versions of their conversations"
+ON public.conversation_key_versions
+FOR SELECT
+USING (public.user_is_conversation_participant(conversation_id, auth.uid()));
+
+-- Only the version the conversation currently requires can be claimed
+CREATE POLICY "Participants can claim the current key version"
+ON public.conversation_key_versions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  public.user_is_conversation_participant(conversation_id, auth.uid()) AND
+  key_version = (
+    SELECT c.key_version FROM public.conversations c
+    WHERE c.id = conversation_id
+  )
+);
+
+-- Bump the required key version whenever someone joins or leaves a conversation
+CREATE OR REPLACE FUNCTION public.bump_conversation_key_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Participants added in the transaction that creates the conversation share its first key
+  UPDATE public.conversations
+  SET key_version = key_version + 1
+  WHERE id = COALESCE(NEW.conversation_id, OLD.conversation_id)
+    AND created_at < now();
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE TRIGGER bump_key_version_on_membership_change
+  AFTER INSERT OR DELETE ON public.conversation_participants
+  FOR EACH ROW EXECUTE FUNCTION public.bump_conversation_key_version();
@@ -0,0 +1,19 @@
+-- Safety-number verifications: which identity key a user confirmed for each contact
+CREATE TABLE IF NOT EXISTS public.key_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  verifier_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  contact_key_fingerprint TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(verifier_id, contact_id)
+);
+
+-- Enable RLS for key verifications
+ALTER TABLE public.key_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Verifications are private to the user who made them
+CREATE POLICY "Users can manage their own key verifications"
+ON public.key_verifications
+FOR ALL
+USING (auth.uid() = verifier_id)
+WITH CHECK (auth.uid() = verifier_id);
@@ -0,0 +1,34 @@
+-- Mesh calls connect every participant to every other one, so cap how many can be in a call at once.
+-- The limit matches MAX_MESH_PARTICIPANTS in the client.
+CREATE OR REPLACE FUNCTION public.enforce_call_participant_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  active_count INTEGER;
+BEGIN
+  -- Only joining (or rejoining after leaving) takes a place
+  IF NEW.left_at IS NOT NULL OR (TG_OP = 'UPDATE' AND OLD.left_at IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Joins to the same call wait for each other, so two people can't both take the last place
+  PERFORM 1 FROM public.calls WHERE id = NEW.call_id FOR UPDATE;
+
+  SELECT COUNT(*) INTO active_count
+  FROM public.call_participants
+  WHERE call_id = NEW.call_id
+    AND left_at IS NULL
+    AND user_id <> NEW.user_id;
+
+  -- CF001 is checked by isCallFullError in the client
+  IF active_count >= 6 THEN
+    RAISE EXCEPTION 'Call is full'
+      USING ERRCODE = 'CF001', HINT = 'Calls are limited to 6 participants';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE TRIGGER enforce_call_participant_limit
+  BEFORE INSERT OR UPDATE OF left_at ON public.call_participants
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_call_participant_limit();
@@ -0,0 +1,2 @@
+-- Let other participants see who is presenting their screen
+ALTER TABLE public.call_participants ADD COLUMN IF NOT EXISTS is_screen_sharing BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,160 @@
+-- Call lifecycle: pending -> ringing -> active -> ended, with missed and declined for unanswered calls
+ALTER TABLE public.calls DROP CONSTRAINT IF EXISTS calls_status_check;
+ALTER TABLE public.calls ADD CONSTRAINT calls_status_check
+  CHECK (status IN ('pending', 'ringing', 'active', 'ended', 'missed', 'declined'));
+
+ALTER TABLE public.calls ADD COLUMN IF NOT EXISTS answered_at TIMESTAMP WITH TIME ZONE;
+
+-- Only allow valid transitions and keep timestamps and duration server-side
+CREATE OR REPLACE FUNCTION public.handle_call_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.started_at := now();
+    NEW.answered_at := NULL;
+    NEW.ended_at := NULL;
+    NEW.duration_seconds := 0;
+    RETURN NEW;
+  END IF;
+
+  NEW.started_at := OLD.started_at;
+  NEW.answered_at := OLD.answered_at;
+  NEW.ended_at := OLD.ended_at;
+  NEW.duration_seconds := OLD.duration_seconds;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('ringing', 'active', 'missed', 'declined')) OR
+      (OLD.status = 'ringing' AND NEW.status IN ('active', 'missed', 'declined')) OR
+      (OLD.status = 'active' AND NEW.status = 'ended')
+    ) THEN
+      RAISE EXCEPTION 'Invalid call status transition from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'active' THEN
+      NEW.answered_at := now();
+    ELSIF NEW.status IN ('ended', 'missed', 'declined') THEN
+      NEW.ended_at := now();
+      NEW.duration_seconds := COALESCE(
+        EXTRACT(EPOCH FROM (NEW.ended_at - OLD.answered_at))::INTEGER,
+        0
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path TO '';
+
+CREATE TRIGGER handle_call_status_change
+  BEFORE INSERT OR UPDATE ON public.calls
+  FOR EACH ROW EXECUTE FUNCTION public.handle_call_status_change();
+
+-- A recipient's client has received the call and is showing it
+CREATE OR REPLACE FUNCTION public.mark_call_ringing(call_id_param UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.calls c
+  SET status = 'ringing'
+  WHERE c.id = call_id_param
+    AND c.status = 'pending'
+    AND c.initiator_id <> auth.uid()
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Returns the call's status afterwards; anything but 'active' means it can no longer be joined
+CREATE OR REPLACE FUNCTION public.answer_call(call_id_param UUID)
+RETURNS TEXT AS $$
+DECLARE
+  call_status TEXT;
+BEGIN
+  UPDATE public.calls c
+  SET status = 'active'
+  WHERE c.id = call_id_param
+    AND c.status IN ('pending', 'ringing')
+    AND c.initiator_id <> auth.uid()
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  SELECT c.status INTO call_status
+  FROM public.calls c
+  WHERE c.id = call_id_param
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  RETURN call_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Group calls keep ringing for everyone else when one member declines
+CREATE OR REPLACE FUNCTION public.decline_call(call_id_param UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.calls c
+  SET status = 'declined'
+  WHERE c.id = call_id_param
+    AND c.status IN ('pending', 'ringing')
+    AND NOT COALESCE(c.is_group_call, false)
+    AND c.initiator_id <> auth.uid()
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Unanswered calls become missed after 45 seconds; any participant's client may report it
+CREATE OR REPLACE FUNCTION public.expire_unanswered_call(call_id_param UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.calls c
+  SET status = 'missed'
+  WHERE c.id = call_id_param
+    AND c.status IN ('pending', 'ringing')
+    AND c.started_at <= now() - INTERVAL '45 seconds'
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Leave a call; it ends once nobody is left, or as soon as either side of a 1:1 call hangs up
+CREATE OR REPLACE FUNCTION public.leave_call(call_id_param UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  call_record public.calls%ROWTYPE;
+BEGIN
+  SELECT * INTO call_record
+  FROM public.calls c
+  WHERE c.id = call_id_param
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Call not found';
+  END IF;
+
+  UPDATE public.call_participants
+  SET left_at = now()
+  WHERE call_id = call_id_param
+    AND user_id = auth.uid()
+    AND left_at IS NULL;
+
+  IF NOT COALESCE(call_record.is_group_call, false) OR NOT EXISTS (
+    SELECT 1 FROM public.call_participants
+    WHERE call_id = call_id_param AND left_at IS NULL
+  ) THEN
+    UPDATE public.call_participants
+    SET left_at = now()
+    WHERE call_id = call_id_param
+      AND left_at IS NULL;
+
+    UPDATE public.calls
+    SET status = CASE WHEN status = 'active' THEN 'ended' ELSE 'missed' END
+    WHERE id = call_id_param
+      AND status IN ('pending', 'ringing', 'active');
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
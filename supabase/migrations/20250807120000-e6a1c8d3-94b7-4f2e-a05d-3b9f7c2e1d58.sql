@@ -0,0 +1,152 @@
+-- Server-generated timeline events for calls, membership changes and renames
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'file', 'call', 'system'));
+
+-- Clients may not forge events; the triggers below run as the table owner and bypass this
+CREATE POLICY "Only the server writes event messages"
+ON public.messages
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (message_type IS NULL OR message_type NOT IN ('call', 'system'));
+
+CREATE OR REPLACE FUNCTION public.profile_display_name(user_id_param UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(NULLIF(p.display_name, ''), p.username, 'Someone')
+  FROM public.profiles p
+  WHERE p.id = user_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path TO '';
+
+CREATE OR REPLACE FUNCTION public.insert_event_message(
+  conversation_id_param UUID,
+  actor_id_param UUID,
+  message_type_param TEXT,
+  content_param TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Nothing to record once the conversation itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = conversation_id_param) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, message_type, content)
+  VALUES (conversation_id_param, actor_id_param, message_type_param, content_param);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Call started, ended, missed or declined
+CREATE OR REPLACE FUNCTION public.record_call_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  caller_name TEXT;
+  call_kind TEXT;
+BEGIN
+  caller_name := public.profile_display_name(NEW.initiator_id);
+  call_kind := COALESCE(NEW.call_type, 'voice');
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.insert_event_message(
+      NEW.conversation_id, NEW.initiator_id, 'call',
+      format('%s started a %s call', caller_name, call_kind)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'ended' THEN
+      PERFORM public.insert_event_message(
+        NEW.conversation_id, NEW.initiator_id, 'call',
+        format('Call ended · %s:%s', NEW.duration_seconds / 60, lpad((NEW.duration_seconds % 60)::TEXT, 2, '0'))
+      );
+    ELSIF NEW.status = 'missed' THEN
+      PERFORM public.insert_event_message(
+        NEW.conversation_id, NEW.initiator_id, 'call',
+        format('Missed %s call from %s', call_kind, caller_name)
+      );
+    ELSIF NEW.status = 'declined' THEN
+      PERFORM public.insert_event_message(
+        NEW.conversation_id, NEW.initiator_id, 'call',
+        format('%s call from %s was declined', initcap(call_kind), caller_name)
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE TRIGGER record_call_event
+  AFTER INSERT OR UPDATE OF status ON public.calls
+  FOR EACH ROW EXECUTE FUNCTION public.record_call_event();
+
+-- Members added, removed or leaving a group
+CREATE OR REPLACE FUNCTION public.record_membership_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_id UUID;
+  member_id UUID;
+  target_conversation UUID;
+BEGIN
+  member_id := COALESCE(NEW.user_id, OLD.user_id);
+  target_conversation := COALESCE(NEW.conversation_id, OLD.conversation_id);
+  actor_id := COALESCE(auth.uid(), member_id);
+
+  -- Members added while a conversation is created are part of creating it, not events
+  IF NOT EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id = target_conversation AND c.type = 'group' AND c.created_at < now()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.insert_event_message(
+      target_conversation, actor_id, 'system',
+      CASE WHEN actor_id = member_id
+        THEN format('%s joined the group', public.profile_display_name(member_id))
+        ELSE format('%s added %s', public.profile_display_name(actor_id), public.profile_display_name(member_id))
+      END
+    );
+  ELSE
+    PERFORM public.insert_event_message(
+      target_conversation, actor_id, 'system',
+      CASE WHEN actor_id = member_id
+        THEN format('%s left the group', public.profile_display_name(member_id))
+        ELSE format('%s removed %s', public.profile_display_name(actor_id), public.profile_display_name(member_id))
+      END
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE TRIGGER record_membership_event
+  AFTER INSERT OR DELETE ON public.conversation_participants
+  FOR EACH ROW EXECUTE FUNCTION public.record_membership_event();
+
+-- Group renamed
+CREATE OR REPLACE FUNCTION public.record_rename_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_name TEXT;
+BEGIN
+  new_name := COALESCE(NEW.name, NEW.group_name);
+
+  IF NEW.type = 'group'
+    AND new_name IS NOT NULL
+    AND new_name IS DISTINCT FROM COALESCE(OLD.name, OLD.group_name) THEN
+    PERFORM public.insert_event_message(
+      NEW.id, COALESCE(auth.uid(), NEW.created_by), 'system',
+      format('%s renamed the group to "%s"', public.profile_display_name(COALESCE(auth.uid(), NEW.created_by)), new_name)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE TRIGGER record_rename_event
+  AFTER UPDATE OF name, group_name ON public.conversations
+  FOR EACH ROW EXECUTE FUNCTION public.record_rename_event();
+
+-- Only the triggers may write events
+REVOKE EXECUTE ON FUNCTION public.insert_event_message(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,2 @@
+-- Let other participants see who is recording the call
+ALTER TABLE public.call_participants ADD COLUMN IF NOT EXISTS is_recording BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+-- Private bucket for message attachments, stored as <conversation_id>/<uploader_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+-- Everyone in a conversation can read its attachments
+CREATE POLICY "Participants can view conversation attachments"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'attachments' AND
+  public.user_is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+-- Uploads go into the uploader's own folder of a conversation they belong to
+CREATE POLICY "Participants can upload conversation attachments"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'attachments' AND
+  (storage.foldername(name))[2] = auth.uid()::text AND
+  public.user_is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Users can delete their own attachments"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'attachments' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
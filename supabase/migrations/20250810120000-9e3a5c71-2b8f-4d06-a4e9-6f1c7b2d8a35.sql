@@ -0,0 +1,3 @@
+-- Attachments are now uploaded encrypted, which adds 16 bytes per 1 MiB chunk;
+-- leave room for that on top of the 25 MiB the app allows
+UPDATE storage.buckets SET file_size_limit = 27262976 WHERE id = 'attachments';
@@ -0,0 +1,4 @@
+-- Voice notes are attachments with their own player
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'file', 'voice', 'call', 'system'));
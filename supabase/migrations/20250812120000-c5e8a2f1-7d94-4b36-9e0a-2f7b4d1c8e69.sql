@@ -0,0 +1,53 @@
+-- Previous versions of edited messages, written by the server whenever a body changes
+CREATE TABLE IF NOT EXISTS public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  encrypted_content TEXT,
+  encryption_key_id TEXT,
+  key_version INTEGER,
+  -- When this version was replaced
+  edited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS message_edits_message_idx
+ON public.message_edits (message_id, edited_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can read the message can read its history; only the trigger below writes it
+CREATE POLICY "Participants can view message edit history"
+ON public.message_edits
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND public.user_is_conversation_participant(m.conversation_id, auth.uid())
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.encrypted_content IS NOT DISTINCT FROM OLD.encrypted_content THEN
+    RETURN NEW;
+  END IF;
+
+  -- Attachments and server events can't be rewritten
+  IF COALESCE(OLD.message_type, 'text') <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  INSERT INTO public.message_edits (message_id, content, encrypted_content, encryption_key_id, key_version, edited_at)
+  VALUES (OLD.id, OLD.content, OLD.encrypted_content, OLD.encryption_key_id, OLD.key_version, now());
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE TRIGGER record_message_edit
+  BEFORE UPDATE OF content, encrypted_content ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.record_message_edit();
@@ -0,0 +1,90 @@
+-- Deleting a message leaves a tombstone so replies keep their context
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- How long after sending a message can still be deleted for everyone; NULL means any time,
+-- which stays the case unless a group opts in
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS delete_window_minutes INTEGER
+  CHECK (delete_window_minutes IS NULL OR delete_window_minutes > 0);
+
+-- Replies survive the message they point at being removed outright (e.g. with its conversation)
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_reply_to_fkey;
+ALTER TABLE public.messages ADD CONSTRAINT messages_reply_to_fkey
+  FOREIGN KEY (reply_to) REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Clients no longer remove rows, and may only change a message's body;
+-- deleting goes through delete_message_for_everyone
+DROP POLICY IF EXISTS "Users can delete their own messages" ON public.messages;
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (content, encrypted_content, encryption_key_id, key_version) ON public.messages TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Deleting clears the body, which isn't an edit worth keeping
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.encrypted_content IS NOT DISTINCT FROM OLD.encrypted_content THEN
+    RETURN NEW;
+  END IF;
+
+  -- Attachments and server events can't be rewritten
+  IF COALESCE(OLD.message_type, 'text') <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  INSERT INTO public.message_edits (message_id, content, encrypted_content, encryption_key_id, key_version, edited_at)
+  VALUES (OLD.id, OLD.content, OLD.encrypted_content, OLD.encryption_key_id, OLD.key_version, now());
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(message_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+  target RECORD;
+BEGIN
+  SELECT m.sender_id, m.created_at, m.deleted_at, m.message_type, c.delete_window_minutes
+  INTO target
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE m.id = message_id_param;
+
+  IF NOT FOUND OR target.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF target.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF target.message_type IN ('call', 'system') THEN
+    RAISE EXCEPTION 'Event messages cannot be deleted';
+  END IF;
+
+  IF target.delete_window_minutes IS NOT NULL
+    AND target.created_at < now() - make_interval(mins => target.delete_window_minutes) THEN
+    RAISE EXCEPTION 'Messages can only be deleted for everyone within % minutes of sending', target.delete_window_minutes;
+  END IF;
+
+  UPDATE public.messages
+  SET deleted_at = now(),
+      content = '',
+      encrypted_content = NULL,
+      encryption_key_id = NULL,
+      key_version = NULL
+  WHERE id = message_id_param;
+
+  -- Earlier versions and reactions would otherwise outlive the message
+  DELETE FROM public.message_edits WHERE message_id = message_id_param;
+  DELETE FROM public.message_reactions WHERE message_id = message_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
@@ -0,0 +1,3 @@
+-- Serves the newest-first keyset pages of a conversation's history
+CREATE INDEX IF NOT EXISTS messages_conversation_created_id_idx
+ON public.messages (conversation_id, created_at DESC, id DESC);
@@ -0,0 +1,6 @@
+-- Generated by the sending client so its optimistic copy can be matched to the stored row
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS messages_sender_client_id_idx
+ON public.messages (sender_id, client_id)
+WHERE client_id IS NOT NULL;
@@ -0,0 +1,78 @@
+-- Read position per member, for unread counts. Existing members start with everything read.
+ALTER TABLE public.conversation_participants
+ADD COLUMN IF NOT EXISTS last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Listing a user's conversations starts from their memberships;
+-- the (conversation_id, user_id) unique index covers lookups the other way
+CREATE INDEX IF NOT EXISTS conversation_participants_user_id_idx
+ON public.conversation_participants (user_id, conversation_id);
+
+-- Last message and unread counts use messages_conversation_created_id_idx
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(conversation_id_param UUID)
+RETURNS VOID AS $$
+  UPDATE public.conversation_participants
+  SET last_read_at = now()
+  WHERE conversation_id = conversation_id_param
+    AND user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path TO '';
+
+-- Everything the sidebar shows, in one call, most recently active first
+CREATE OR REPLACE FUNCTION public.get_conversation_list()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  type TEXT,
+  created_by UUID,
+  delete_window_minutes INTEGER,
+  participants JSONB,
+  last_message JSONB,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+) AS $$
+  SELECT
+    c.id,
+    COALESCE(NULLIF(c.name, ''), c.group_name),
+    c.type,
+    c.created_by,
+    c.delete_window_minutes,
+    members.participants,
+    CASE WHEN last_message.id IS NULL THEN NULL ELSE to_jsonb(last_message) END,
+    COALESCE(last_message.created_at, c.created_at),
+    unread.unread_count
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'username', p.username,
+        'status', p.status,
+        'avatar_url', p.avatar_url
+      ) ORDER BY cp.joined_at),
+      '[]'::jsonb
+    ) AS participants
+    FROM public.conversation_participants cp
+    JOIN public.profiles p ON p.id = cp.user_id
+    WHERE cp.conversation_id = c.id
+  ) members
+  LEFT JOIN LATERAL (
+    -- Still encrypted; the client decrypts it for the preview
+    SELECT m.id, m.sender_id, m.content, m.encrypted_content, m.encryption_key_id,
+           m.message_type, m.created_at, m.deleted_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_message ON true
+  CROSS JOIN LATERAL (
+    SELECT count(*)::INTEGER AS unread_count
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.created_at > me.last_read_at
+      AND m.sender_id IS DISTINCT FROM auth.uid()
+      AND m.deleted_at IS NULL
+  ) unread
+  WHERE me.user_id = auth.uid()
+  ORDER BY COALESCE(last_message.created_at, c.created_at) DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path TO '';
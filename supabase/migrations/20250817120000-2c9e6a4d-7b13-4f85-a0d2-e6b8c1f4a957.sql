@@ -0,0 +1,60 @@
+-- Time out unanswered calls on the server, so they don't stay pending or ringing
+-- when nobody's client is left open to report them as missed
+CREATE INDEX IF NOT EXISTS calls_unanswered_started_at_idx
+ON public.calls (started_at)
+WHERE status IN ('pending', 'ringing');
+
+CREATE OR REPLACE FUNCTION public.expire_stale_calls()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.calls
+  SET status = 'missed'
+  WHERE status IN ('pending', 'ringing')
+    AND started_at <= now() - INTERVAL '45 seconds';
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Touches every call in the system, so only the scheduled job runs it
+REVOKE EXECUTE ON FUNCTION public.expire_stale_calls() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-stale-calls',
+  '* * * * *',
+  $$SELECT public.expire_stale_calls()$$
+);
+
+-- A call that has timed out can't be answered, even if the sweep hasn't reached it yet
+CREATE OR REPLACE FUNCTION public.answer_call(call_id_param UUID)
+RETURNS TEXT AS $$
+DECLARE
+  call_status TEXT;
+BEGIN
+  UPDATE public.calls c
+  SET status = 'missed'
+  WHERE c.id = call_id_param
+    AND c.status IN ('pending', 'ringing')
+    AND c.started_at <= now() - INTERVAL '45 seconds'
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  UPDATE public.calls c
+  SET status = 'active'
+  WHERE c.id = call_id_param
+    AND c.status IN ('pending', 'ringing')
+    AND c.initiator_id <> auth.uid()
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  SELECT c.status INTO call_status
+  FROM public.calls c
+  WHERE c.id = call_id_param
+    AND public.user_is_conversation_participant(c.conversation_id, auth.uid());
+
+  RETURN call_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
@@ -0,0 +1,28 @@
+-- Storage policies are checked for objects in every bucket, and nothing guarantees the
+-- bucket_id test runs first, so a path whose first folder isn't a UUID must not break the cast
+CREATE OR REPLACE FUNCTION public.attachment_conversation_id(object_name TEXT)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN (storage.foldername(object_name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN ((storage.foldername(object_name))[1])::uuid
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path TO '';
+
+DROP POLICY IF EXISTS "Participants can view conversation attachments" ON storage.objects;
+CREATE POLICY "Participants can view conversation attachments"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'attachments' AND
+  public.user_is_conversation_participant(public.attachment_conversation_id(name), auth.uid())
+);
+
+DROP POLICY IF EXISTS "Participants can upload conversation attachments" ON storage.objects;
+CREATE POLICY "Participants can upload conversation attachments"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'attachments' AND
+  (storage.foldername(name))[2] = auth.uid()::text AND
+  public.user_is_conversation_participant(public.attachment_conversation_id(name), auth.uid())
+);
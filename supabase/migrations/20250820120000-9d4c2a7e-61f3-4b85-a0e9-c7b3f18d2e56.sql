@@ -0,0 +1,23 @@
+-- Keys already wrapped for a replaced identity can't be unwrapped by the new one, so every
+-- conversation the user is in needs a fresh key version, wrapped for the new public key
+CREATE OR REPLACE FUNCTION public.bump_key_versions_on_identity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.conversations c
+  SET key_version = c.key_version + 1
+  WHERE c.id IN (
+    SELECT cp.conversation_id
+    FROM public.conversation_participants cp
+    WHERE cp.user_id = NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path TO '';
+
+-- Publishing a first key doesn't need this: nothing was wrapped for the account before
+CREATE TRIGGER bump_key_versions_on_identity_change
+  AFTER UPDATE OF public_key ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.public_key IS NOT NULL AND OLD.public_key IS DISTINCT FROM NEW.public_key)
+  EXECUTE FUNCTION public.bump_key_versions_on_identity_change();